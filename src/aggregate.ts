@@ -0,0 +1,147 @@
+export type AggregateOp = 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+export const AGGREGATE_OPS: AggregateOp[] = ['count', 'sum', 'avg', 'min', 'max'];
+
+export interface AggregateSpec {
+  op: AggregateOp;
+  /** Field to aggregate; optional for `count`, which then counts records */
+  field?: string;
+  /** Output column name, defaults to `op` or `op_field` */
+  as?: string;
+}
+
+export type AggregateRow = Record<string, any>;
+
+interface Accumulator {
+  count: number;
+  sum: number;
+  min: any;
+  max: any;
+}
+
+/**
+ * Output column name for an aggregate expression.
+ */
+export function aggregateAlias(spec: AggregateSpec): string {
+  return spec.as || (spec.field ? `${spec.op}_${spec.field}` : spec.op);
+}
+
+function compareValues(a: any, b: any): number {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  return String(a).localeCompare(String(b));
+}
+
+function isPresent(value: any): boolean {
+  return value !== null && value !== undefined && !(Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Expand a record into the group keys it belongs to. Array values (multi-select fields)
+ * put the record in one group per element, like getFieldOptions counts them.
+ */
+function groupKeysFor(record: Record<string, any>, groupBy: string[]): any[][] {
+  let keys: any[][] = [[]];
+
+  for (const field of groupBy) {
+    const value = record[field];
+    const values = Array.isArray(value) ? (value.length > 0 ? value : [null]) : [value ?? null];
+    keys = keys.flatMap(prefix => values.map(item => [...prefix, item]));
+  }
+
+  return keys;
+}
+
+/**
+ * Group records and compute the aggregate expressions for each group. Without `groupBy`
+ * a single row covering every record is returned. Rows are ordered by the first aggregate,
+ * largest first.
+ */
+export function aggregateRecords(
+  records: Record<string, any>[],
+  groupBy: string[],
+  aggregates: AggregateSpec[]
+): AggregateRow[] {
+  const groups = new Map<string, { key: any[]; accumulators: Accumulator[] }>();
+
+  const newAccumulators = () =>
+    aggregates.map(() => ({ count: 0, sum: 0, min: undefined, max: undefined }));
+
+  if (groupBy.length === 0) {
+    groups.set('[]', { key: [], accumulators: newAccumulators() });
+  }
+
+  for (const record of records) {
+    for (const key of groupKeysFor(record, groupBy)) {
+      const id = JSON.stringify(key);
+      let group = groups.get(id);
+      if (!group) {
+        group = { key, accumulators: newAccumulators() };
+        groups.set(id, group);
+      }
+
+      aggregates.forEach((spec, index) => {
+        const acc = group!.accumulators[index];
+
+        if (!spec.field) {
+          acc.count++;
+          return;
+        }
+
+        const value = record[spec.field];
+        if (!isPresent(value)) {
+          return;
+        }
+
+        acc.count++;
+        if (typeof value === 'number') {
+          acc.sum += value;
+        }
+        if (acc.min === undefined || compareValues(value, acc.min) < 0) {
+          acc.min = value;
+        }
+        if (acc.max === undefined || compareValues(value, acc.max) > 0) {
+          acc.max = value;
+        }
+      });
+    }
+  }
+
+  const rows = Array.from(groups.values()).map(group => {
+    const row: AggregateRow = {};
+    groupBy.forEach((field, index) => {
+      row[field] = group.key[index];
+    });
+
+    aggregates.forEach((spec, index) => {
+      const acc = group.accumulators[index];
+      switch (spec.op) {
+        case 'count':
+          row[aggregateAlias(spec)] = acc.count;
+          break;
+        case 'sum':
+          row[aggregateAlias(spec)] = acc.sum;
+          break;
+        case 'avg':
+          row[aggregateAlias(spec)] = acc.count > 0 ? acc.sum / acc.count : null;
+          break;
+        case 'min':
+          row[aggregateAlias(spec)] = acc.min ?? null;
+          break;
+        case 'max':
+          row[aggregateAlias(spec)] = acc.max ?? null;
+          break;
+      }
+    });
+
+    return row;
+  });
+
+  if (aggregates.length > 0) {
+    const firstAlias = aggregateAlias(aggregates[0]);
+    rows.sort((a, b) => compareValues(b[firstAlias] ?? -Infinity, a[firstAlias] ?? -Infinity));
+  }
+
+  return rows;
+}
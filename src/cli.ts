@@ -1,7 +1,15 @@
-import { program } from 'commander';
+import { Command, program } from 'commander';
 import { BaseQLMCPServer } from './server.js';
 import { setupWizard } from './setup.js';
 import { validateConfig } from './validator.js';
+import { parseTableList } from './query-guard.js';
+import { parseCacheTtls } from './response-cache.js';
+import { OUTPUT_FORMATS, isOutputFormat } from './formatters.js';
+import { PRINT_FORMATS, errorMessage, printResult, queryResultLists } from './terminal-output.js';
+import { EXPORT_FORMATS, isExportFormat } from './export.js';
+import { DEFAULT_QUERIES_DIR } from './named-queries.js';
+import { QueryFix, describeFix } from './query-validation.js';
+import { DEFAULT_HISTORY_FILE, startRepl } from './repl.js';
 import chalk from 'chalk';
 import dotenv from 'dotenv';
 import { fileURLToPath } from 'url';
@@ -23,13 +31,107 @@ program
   .description('BaseQL MCP Server - Query Airtable and Google Sheets via GraphQL')
   .version(packageJson.version);
 
+/**
+ * Options that say which BaseQL endpoint to talk to, for the commands that run tools directly.
+ */
+function withConnectionOptions(command: Command): Command {
+  return command
+    .option('--endpoint <url>', 'BaseQL API endpoint')
+    .option('--key <key>', 'BaseQL API key')
+    .option('--config <file>', 'Endpoints file listing several named BaseQL endpoints')
+    .option('--on <name>', 'Endpoint to use from the endpoints file (default: its default endpoint)')
+    .option('--use-keychain', 'Load the endpoint and API key from the system keychain (or encrypted credentials file)')
+    .option('--credential <name>', 'Name of the stored credential to use with --use-keychain (default: "default")');
+}
+
+/**
+ * A server for running tools from the command line, or exit with an error when credentials are missing.
+ */
+function toolServer(options: any, extra: Record<string, unknown> = {}): BaseQLMCPServer {
+  const config = {
+    endpoint: options.endpoint || process.env.BASEQL_API_ENDPOINT,
+    apiKey: options.key || process.env.BASEQL_API_KEY,
+    configFile: options.config || process.env.BASEQL_CONFIG,
+    useKeychain: options.useKeychain || process.env.BASEQL_USE_KEYCHAIN === 'true',
+    credentialName: options.credential || process.env.BASEQL_CREDENTIAL
+  };
+
+  if (!config.configFile && !config.useKeychain && (!config.endpoint || !config.apiKey)) {
+    console.error(chalk.red('❌ Missing required credentials'));
+    console.error(chalk.yellow('Run "baseql-mcp setup" to configure, or pass --config with an endpoints file'));
+    process.exit(1);
+  }
+
+  return new BaseQLMCPServer({ ...config, ...extra });
+}
+
+function parseJsonOption(value: string | undefined, what: string): any {
+  if (value === undefined) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(value);
+  } catch (error: any) {
+    console.error(chalk.red(`❌ Invalid ${what} JSON: ${error.message}`));
+    process.exit(1);
+  }
+}
+
+/**
+ * Parse "field:direction,field" into queryTable sort options.
+ */
+function parseSortOption(value: string | undefined): Array<{ field: string; direction?: string }> | undefined {
+  return parseTableList(value)?.map(item => {
+    const [field, direction] = item.split(':').map(part => part.trim());
+    return { field, direction: direction || undefined };
+  });
+}
+
+function checkPrintFormat(output: string): void {
+  if (!PRINT_FORMATS.includes(output)) {
+    console.error(chalk.red(`❌ Invalid output "${output}"`));
+    console.error(chalk.yellow(`Use one of: ${PRINT_FORMATS.join(', ')}`));
+    process.exit(1);
+  }
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
 program
   .command('serve')
   .description('Start the MCP server')
   .option('--endpoint <url>', 'BaseQL API endpoint')
   .option('--key <key>', 'BaseQL API key')
+  .option('--config <file>', 'Endpoints file listing several named BaseQL endpoints')
   .option('--transport <type>', 'Transport type (stdio|http)', 'stdio')
-  .option('--use-keychain', 'Use system keychain for credentials')
+  .option('--host <host>', 'Host to bind the HTTP transport to (default: 127.0.0.1)')
+  .option('--port <port>', 'Port for the HTTP transport (default: 3000)')
+  .option('--allow-writes', 'Allow mutations (create/update/delete and raw mutation queries)')
+  .option('--allow-tables <tables>', 'Comma-separated list of tables the server may access')
+  .option('--deny-tables <tables>', 'Comma-separated list of tables the server may not access')
+  .option('--schema-ttl <seconds>', 'Seconds to cache the introspected schema (default: 300)')
+  .option('--max-records <count>', 'Hard ceiling on records a single tool call may fetch (default: 1000)')
+  .option('--max-scan-records <count>', 'Records aggregations and exhaustive field option counts may scan (default: 100000)')
+  .option('--timeout <ms>', 'Milliseconds before a BaseQL request attempt is aborted (default: 30000)')
+  .option('--max-retries <count>', 'Retries for rate-limited, timed-out and failed BaseQL requests (default: 3)')
+  .option('--max-concurrency <count>', 'BaseQL requests allowed in flight at once per endpoint (default: 4)')
+  .option('--cache-ttl <list>', 'Per-tool response cache TTLs in seconds, e.g. "queryTable=30,getFieldOptions=600"')
+  .option('--cache-dir <dir>', 'Persist cached responses in this directory across restarts')
+  .option('--cache-max-entries <count>', 'Most responses to keep in the cache (default: 500)')
+  .option('--no-cache', 'Turn the response cache off')
+  .option('--format <format>', `Default output format for tool results (${OUTPUT_FORMATS.join('|')}, default: json)`)
+  .option('--export-dir <dir>', 'Directory exportTable writes files to (default: ~/baseql-exports)')
+  .option('--max-response-tokens <count>', 'Truncate tool results above this many estimated tokens, 0 for no limit (default: 20000)')
+  .option('--prompts-dir <dir>', 'Directory of team prompt files (*.json) to offer alongside the built-in prompts')
+  .option('--queries-dir <dir>', 'Directory of named queries (*.graphql) to offer as additional tools')
+  .option('--use-keychain', 'Load the endpoint and API key from the system keychain (or encrypted credentials file)')
+  .option('--credential <name>', 'Name of the stored credential to use with --use-keychain (default: "default")')
   .action(async (options) => {
     try {
       console.error(chalk.blue('🚀 Starting BaseQL MCP Server...'));
@@ -38,31 +140,112 @@ program
       const config = {
         endpoint: options.endpoint || process.env.BASEQL_API_ENDPOINT,
         apiKey: options.key || process.env.BASEQL_API_KEY,
+        configFile: options.config || process.env.BASEQL_CONFIG,
         transport: options.transport as 'stdio' | 'http',
-        useKeychain: options.useKeychain
+        host: options.host,
+        port: options.port ? parseInt(options.port, 10) : undefined,
+        useKeychain: options.useKeychain || process.env.BASEQL_USE_KEYCHAIN === 'true',
+        credentialName: options.credential || process.env.BASEQL_CREDENTIAL
       };
 
-      // If using keychain, try to load credentials from it
-      if (config.useKeychain) {
-        try {
-          // This would need keytar implementation
-          console.error(chalk.yellow('⚠️  Keychain support coming soon'));
-        } catch (error) {
-          console.error(chalk.red('Failed to load credentials from keychain'));
-        }
+      if (!['stdio', 'http'].includes(config.transport)) {
+        console.error(chalk.red(`❌ Unknown transport "${config.transport}". Use "stdio" or "http"`));
+        process.exit(1);
+      }
+
+      if (config.port !== undefined && (isNaN(config.port) || config.port <= 0 || config.port > 65535)) {
+        console.error(chalk.red(`❌ Invalid port "${options.port}"`));
+        process.exit(1);
+      }
+
+      if (options.schemaTtl !== undefined && !(parseInt(options.schemaTtl, 10) >= 0)) {
+        console.error(chalk.red(`❌ Invalid schema TTL "${options.schemaTtl}"`));
+        process.exit(1);
+      }
+
+      if (options.maxRecords !== undefined && !(parseInt(options.maxRecords, 10) > 0)) {
+        console.error(chalk.red(`❌ Invalid max records "${options.maxRecords}"`));
+        process.exit(1);
+      }
+
+      if (options.maxScanRecords !== undefined && !(parseInt(options.maxScanRecords, 10) > 0)) {
+        console.error(chalk.red(`❌ Invalid max scan records "${options.maxScanRecords}"`));
+        process.exit(1);
+      }
+
+      if (options.timeout !== undefined && !(parseInt(options.timeout, 10) > 0)) {
+        console.error(chalk.red(`❌ Invalid timeout "${options.timeout}"`));
+        process.exit(1);
+      }
+
+      if (options.maxRetries !== undefined && !(parseInt(options.maxRetries, 10) >= 0)) {
+        console.error(chalk.red(`❌ Invalid max retries "${options.maxRetries}"`));
+        process.exit(1);
+      }
+
+      if (options.maxConcurrency !== undefined && !(parseInt(options.maxConcurrency, 10) > 0)) {
+        console.error(chalk.red(`❌ Invalid max concurrency "${options.maxConcurrency}"`));
+        process.exit(1);
+      }
+
+      let cacheTtls: Record<string, number> | undefined;
+      try {
+        cacheTtls = parseCacheTtls(options.cacheTtl);
+      } catch (error: any) {
+        console.error(chalk.red(`❌ ${error.message}`));
+        process.exit(1);
+      }
+
+      if (options.cacheMaxEntries !== undefined && !(parseInt(options.cacheMaxEntries, 10) > 0)) {
+        console.error(chalk.red(`❌ Invalid cache size "${options.cacheMaxEntries}"`));
+        process.exit(1);
+      }
+
+      if (options.maxResponseTokens !== undefined && !(parseInt(options.maxResponseTokens, 10) >= 0)) {
+        console.error(chalk.red(`❌ Invalid max response tokens "${options.maxResponseTokens}"`));
+        process.exit(1);
+      }
+
+      if (options.format !== undefined && !isOutputFormat(options.format)) {
+        console.error(chalk.red(`❌ Invalid format "${options.format}"`));
+        console.error(chalk.yellow(`Use one of: ${OUTPUT_FORMATS.join(', ')}`));
+        process.exit(1);
       }
 
       // Validate we have required credentials
-      if (!config.endpoint || !config.apiKey) {
+      if (!config.configFile && !config.useKeychain && (!config.endpoint || !config.apiKey)) {
         console.error(chalk.red('❌ Missing required credentials'));
-        console.error(chalk.yellow('Run "baseql-mcp setup" to configure'));
+        console.error(chalk.yellow('Run "baseql-mcp setup" to configure, or pass --config with an endpoints file'));
         process.exit(1);
       }
 
       const server = new BaseQLMCPServer({
         endpoint: config.endpoint,
         apiKey: config.apiKey,
-        transport: config.transport
+        configFile: config.configFile,
+        useKeychain: config.useKeychain,
+        credentialName: config.credentialName,
+        transport: config.transport,
+        host: config.host,
+        port: config.port,
+        allowWrites: options.allowWrites || undefined,
+        allowedTables: parseTableList(options.allowTables),
+        deniedTables: parseTableList(options.denyTables),
+        schemaTtl: options.schemaTtl ? parseInt(options.schemaTtl, 10) : undefined,
+        maxRecords: options.maxRecords ? parseInt(options.maxRecords, 10) : undefined,
+        maxScanRecords: options.maxScanRecords ? parseInt(options.maxScanRecords, 10) : undefined,
+        timeoutMs: options.timeout ? parseInt(options.timeout, 10) : undefined,
+        maxRetries: options.maxRetries !== undefined ? parseInt(options.maxRetries, 10) : undefined,
+        maxConcurrency: options.maxConcurrency ? parseInt(options.maxConcurrency, 10) : undefined,
+        cacheTtls,
+        cache: options.cache === false ? false : undefined,
+        cacheDir: options.cacheDir,
+        cacheMaxEntries: options.cacheMaxEntries ? parseInt(options.cacheMaxEntries, 10) : undefined,
+        defaultFormat: options.format,
+        maxResponseTokens: options.maxResponseTokens !== undefined ? parseInt(options.maxResponseTokens, 10) : undefined,
+        exportDir: options.exportDir,
+        promptsDir: options.promptsDir,
+        queriesDir: options.queriesDir
       });
 
       await server.start();
@@ -72,6 +255,181 @@ program
     }
   });
 
+withConnectionOptions(
+  program
+    .command('export <table>')
+    .description('Export a table, or the records matching a filter, to a CSV, JSON or NDJSON file')
+    .option('--fields <fields>', 'Comma-separated fields, e.g. "id,fullName,company.name" (default: every field)')
+    .option('--filter <json>', 'Filter as JSON, same format as the queryTable tool, e.g. \'{"status": "Active"}\'')
+    .option('--sort <list>', 'Comma-separated sort fields, e.g. "lastName:asc,created:desc"')
+    .option('--format <format>', `File format (${EXPORT_FORMATS.join('|')})`, 'csv')
+    .option('--output <name>', 'File name to create in the export directory (default: <table>-<timestamp>.<format>)')
+    .option('--limit <count>', 'Stop after this many records')
+    .option('--export-dir <dir>', 'Directory to write the file to (default: ~/baseql-exports)')
+)
+  .action(async (table: string, options) => {
+    try {
+      if (!isExportFormat(options.format)) {
+        console.error(chalk.red(`❌ Invalid format "${options.format}"`));
+        console.error(chalk.yellow(`Use one of: ${EXPORT_FORMATS.join(', ')}`));
+        process.exit(1);
+      }
+      if (options.limit !== undefined && !(parseInt(options.limit, 10) > 0)) {
+        console.error(chalk.red(`❌ Invalid limit "${options.limit}"`));
+        process.exit(1);
+      }
+
+      const server = toolServer(options, { exportDir: options.exportDir });
+      const [content] = await server.runTool('exportTable', {
+        endpoint: options.on,
+        tableName: table,
+        fields: parseTableList(options.fields),
+        filter: parseJsonOption(options.filter, 'filter'),
+        sort: parseSortOption(options.sort),
+        fileFormat: options.format,
+        fileName: options.output,
+        limit: options.limit !== undefined ? parseInt(options.limit, 10) : undefined,
+      });
+      const result = JSON.parse(content.text);
+
+      console.log(chalk.green(`✅ Exported ${result.rows} records from ${result.tableName} to ${result.path}`));
+      console.log(chalk.gray(`   ${result.bytes} bytes, sha256 ${result.sha256}`));
+      if (!result.complete) {
+        console.log(chalk.yellow(`⚠️  Stopped at --limit ${options.limit}; more records may match`));
+      }
+    } catch (error: any) {
+      console.error(chalk.red('❌ Export failed:'), errorMessage(error));
+      process.exit(1);
+    }
+  });
+
+withConnectionOptions(
+  program
+    .command('query [query]')
+    .description('Run a GraphQL query, given as an argument, with --file or on stdin')
+    .option('-f, --file <file>', 'Read the query from a file')
+    .option('--variables <json>', 'GraphQL variables as JSON, e.g. \'{"type": "Student"}\'')
+    .option('-o, --output <format>', `How to print the result (${PRINT_FORMATS.join('|')})`, 'pretty')
+    .option('--allow-writes', 'Allow mutations')
+    .option('--autofix', 'Rewrite Int variables to Float, limit to _page_size and uppercase sort directions before running')
+)
+  .action(async (queryArg: string | undefined, options) => {
+    try {
+      checkPrintFormat(options.output);
+
+      let query = queryArg;
+      if (!query && options.file) {
+        query = fs.readFileSync(options.file, 'utf-8');
+      } else if (!query && !process.stdin.isTTY) {
+        query = await readStdin();
+      }
+      if (!query || !query.trim()) {
+        console.error(chalk.red('❌ No query given'));
+        console.error(chalk.yellow('Pass it as an argument, with --file, or pipe it in: cat query.graphql | baseql-mcp query'));
+        process.exit(1);
+      }
+
+      const variables = parseJsonOption(options.variables, 'variables');
+      if (variables !== undefined && (typeof variables !== 'object' || Array.isArray(variables) || variables === null)) {
+        console.error(chalk.red('❌ --variables must be a JSON object'));
+        process.exit(1);
+      }
+
+      // Results go to the terminal in full, so the response budget does not apply
+      const server = toolServer(options, { allowWrites: options.allowWrites || undefined, cache: false, maxResponseTokens: 0 });
+      const [content] = await server.runTool('query', { endpoint: options.on, query, variables, autofix: options.autofix, format: 'json' });
+      const { _autofix: autofixed, ...data } = JSON.parse(content.text);
+
+      // The rewrites go to stderr so --output csv stays clean
+      autofixed?.changes.forEach((change: QueryFix) => console.error(chalk.yellow(`🔧 Rewrote ${describeFix(change)}`)));
+      printResult(data, options.output, queryResultLists(data));
+    } catch (error: any) {
+      console.error(chalk.red('❌ Query failed:'), errorMessage(error));
+      process.exit(1);
+    }
+  });
+
+withConnectionOptions(
+  program
+    .command('tables')
+    .description('List the tables of the endpoint')
+    .option('-o, --output <format>', `How to print the result (${PRINT_FORMATS.join('|')})`, 'table')
+)
+  .action(async (options) => {
+    try {
+      checkPrintFormat(options.output);
+
+      const server = toolServer(options);
+      const [content] = await server.runTool('listTables', { endpoint: options.on, format: 'json' });
+      const data = JSON.parse(content.text);
+
+      // With several endpoints and no --on, tables come grouped by endpoint
+      const tables = Array.isArray(data) && data.some(entry => Array.isArray(entry.tables))
+        ? data.flatMap(entry => entry.tables.map((table: any) => ({ endpoint: entry.endpoint, ...table })))
+        : data;
+      printResult(data, options.output, { tables });
+    } catch (error: any) {
+      console.error(chalk.red('❌ Listing tables failed:'), errorMessage(error));
+      process.exit(1);
+    }
+  });
+
+withConnectionOptions(
+  program
+    .command('schema <table>')
+    .description('Show the fields of a table')
+    .option('-o, --output <format>', `How to print the result (${PRINT_FORMATS.join('|')})`, 'table')
+)
+  .action(async (table: string, options) => {
+    try {
+      checkPrintFormat(options.output);
+
+      const server = toolServer(options);
+      const [content] = await server.runTool('getTableSchema', { endpoint: options.on, tableName: table, format: 'json' });
+      const data = JSON.parse(content.text);
+
+      const fields = (data.fields || []).map((field: any) => ({
+        name: field.name,
+        type: field.type,
+        linkedTable: field.linkedTable,
+        options: field.enumValues,
+        description: field.description,
+      }));
+      printResult(data, options.output, { fields });
+    } catch (error: any) {
+      console.error(chalk.red('❌ Reading the schema failed:'), errorMessage(error));
+      process.exit(1);
+    }
+  });
+
+withConnectionOptions(
+  program
+    .command('repl')
+    .description('Interactive shell with completion of table and field names, for exploring data and building queries')
+    .option('--queries-dir <dir>', `Directory "save" writes named queries to (default: ./${DEFAULT_QUERIES_DIR})`)
+    .option('--history-file <file>', 'Where to keep command history (default: ~/.config/baseql-mcp/repl_history)')
+    .option('-o, --output <format>', `How to print results (${PRINT_FORMATS.join('|')})`, 'table')
+    .option('--allow-writes', 'Allow create, update, delete and mutations')
+)
+  .action(async (options) => {
+    try {
+      checkPrintFormat(options.output);
+
+      // Results go to the terminal in full, so the response budget does not apply
+      const server = toolServer(options, { allowWrites: options.allowWrites || undefined, maxResponseTokens: 0 });
+      await startRepl(server, {
+        endpoint: options.on,
+        queriesDir: options.queriesDir || process.env.BASEQL_QUERIES_DIR || DEFAULT_QUERIES_DIR,
+        historyFile: options.historyFile || DEFAULT_HISTORY_FILE,
+        output: options.output,
+      });
+      process.exit(0);
+    } catch (error: any) {
+      console.error(chalk.red('❌ REPL failed:'), errorMessage(error));
+      process.exit(1);
+    }
+  });
+
 program
   .command('setup')
   .description('Interactive setup wizard')
@@ -0,0 +1,315 @@
+import { spawn } from 'child_process';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+/** Service name credentials are filed under in the OS keychain */
+export const CREDENTIAL_SERVICE = 'baseql-mcp';
+
+/** Credential loaded by `serve --use-keychain` when no name is given */
+export const DEFAULT_CREDENTIAL_NAME = 'default';
+
+const CREDENTIAL_NAME = /^[A-Za-z0-9_-]+$/;
+
+export interface StoredCredential {
+  endpoint: string;
+  apiKey: string;
+}
+
+/**
+ * Where secrets live. Configs only hold the credential's name; the endpoint and API key
+ * are read from the store when the server starts.
+ */
+export interface CredentialStore {
+  readonly backend: 'keychain' | 'encrypted-file';
+  /** Human-readable location, e.g. "macOS Keychain" */
+  readonly location: string;
+  get(name: string): Promise<StoredCredential | null>;
+  set(name: string, credential: StoredCredential): Promise<void>;
+  delete(name: string): Promise<boolean>;
+}
+
+function assertCredentialName(name: string): void {
+  if (!CREDENTIAL_NAME.test(name)) {
+    throw new Error(`Invalid credential name "${name}": use letters, digits, "-" and "_"`);
+  }
+}
+
+// Secrets are stored hex-encoded so they never need quoting on a command line or stdin protocol
+function encodeSecret(credential: StoredCredential): string {
+  return Buffer.from(JSON.stringify(credential), 'utf-8').toString('hex');
+}
+
+function decodeSecret(secret: string, name: string): StoredCredential {
+  try {
+    const credential = JSON.parse(Buffer.from(secret.trim(), 'hex').toString('utf-8'));
+    if (typeof credential.endpoint === 'string' && typeof credential.apiKey === 'string') {
+      return credential;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error(`Stored credential "${name}" is not a BaseQL credential`);
+}
+
+interface CommandResult {
+  code: number | null;
+  stdout: string;
+  stderr: string;
+}
+
+function runCommand(command: string, args: string[], input?: string): Promise<CommandResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['pipe', 'pipe', 'pipe'] });
+    let stdout = '';
+    let stderr = '';
+    child.stdout.on('data', chunk => { stdout += chunk; });
+    child.stderr.on('data', chunk => { stderr += chunk; });
+    child.on('error', reject);
+    child.on('close', code => resolve({ code, stdout, stderr }));
+    child.stdin.end(input ?? '');
+  });
+}
+
+/**
+ * macOS Keychain through the `security` tool. Secrets are written through `security -i`
+ * on stdin so they never appear in the process list.
+ */
+class MacKeychainStore implements CredentialStore {
+  readonly backend = 'keychain' as const;
+  readonly location = 'macOS Keychain';
+
+  async get(name: string): Promise<StoredCredential | null> {
+    assertCredentialName(name);
+    const result = await runCommand('security', ['find-generic-password', '-s', CREDENTIAL_SERVICE, '-a', name, '-w']);
+    if (result.code !== 0) {
+      return null;
+    }
+    return decodeSecret(result.stdout, name);
+  }
+
+  async set(name: string, credential: StoredCredential): Promise<void> {
+    assertCredentialName(name);
+    const command = `add-generic-password -U -s ${CREDENTIAL_SERVICE} -a ${name} -l "BaseQL MCP (${name})" -w ${encodeSecret(credential)}\n`;
+    const result = await runCommand('security', ['-i'], command);
+    if (result.code !== 0 || result.stderr.trim()) {
+      throw new Error(`Could not save credential to the macOS Keychain: ${result.stderr.trim() || `exit code ${result.code}`}`);
+    }
+  }
+
+  async delete(name: string): Promise<boolean> {
+    assertCredentialName(name);
+    const result = await runCommand('security', ['delete-generic-password', '-s', CREDENTIAL_SERVICE, '-a', name]);
+    return result.code === 0;
+  }
+}
+
+/**
+ * Linux Secret Service (GNOME Keyring, KWallet) through libsecret's `secret-tool`.
+ */
+class SecretServiceStore implements CredentialStore {
+  readonly backend = 'keychain' as const;
+  readonly location = 'Secret Service (secret-tool)';
+
+  private attributes(name: string): string[] {
+    return ['service', CREDENTIAL_SERVICE, 'account', name];
+  }
+
+  async get(name: string): Promise<StoredCredential | null> {
+    assertCredentialName(name);
+    const result = await runCommand('secret-tool', ['lookup', ...this.attributes(name)]);
+    if (result.code !== 0 || !result.stdout.trim()) {
+      return null;
+    }
+    return decodeSecret(result.stdout, name);
+  }
+
+  async set(name: string, credential: StoredCredential): Promise<void> {
+    assertCredentialName(name);
+    const result = await runCommand(
+      'secret-tool',
+      ['store', `--label=BaseQL MCP (${name})`, ...this.attributes(name)],
+      encodeSecret(credential)
+    );
+    if (result.code !== 0) {
+      throw new Error(`Could not save credential with secret-tool: ${result.stderr.trim() || `exit code ${result.code}`}`);
+    }
+  }
+
+  async delete(name: string): Promise<boolean> {
+    assertCredentialName(name);
+    const existed = (await this.get(name)) !== null;
+    await runCommand('secret-tool', ['clear', ...this.attributes(name)]);
+    return existed;
+  }
+}
+
+interface EncryptedEntry {
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+interface EncryptedFile {
+  version: 1;
+  salt: string;
+  entries: Record<string, EncryptedEntry>;
+}
+
+/**
+ * AES-256-GCM encrypted file for machines without a keychain (headless Linux, containers).
+ * The key comes from BASEQL_CREDENTIALS_PASSPHRASE when set. Without a passphrase it is a random
+ * key file next to the credentials, so anyone who can read the one can read the other: the file
+ * is then only obfuscated, protected by its 0600 permissions and nothing more.
+ */
+class EncryptedFileStore implements CredentialStore {
+  readonly backend = 'encrypted-file' as const;
+  readonly location: string;
+  private keyPath: string;
+
+  constructor(private filePath: string) {
+    this.location = filePath;
+    this.keyPath = path.join(path.dirname(filePath), 'credentials.key');
+  }
+
+  async get(name: string): Promise<StoredCredential | null> {
+    assertCredentialName(name);
+    const file = await this.read();
+    const entry = file?.entries[name];
+    if (!file || !entry) {
+      return null;
+    }
+
+    const key = await this.key(file.salt, false);
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(entry.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(entry.tag, 'base64'));
+      const secret = Buffer.concat([decipher.update(Buffer.from(entry.data, 'base64')), decipher.final()]);
+      return decodeSecret(secret.toString('utf-8'), name);
+    } catch (error: any) {
+      if (error.message?.startsWith('Stored credential')) {
+        throw error;
+      }
+      throw new Error(`Cannot decrypt credential "${name}" from ${this.filePath}: wrong passphrase or key file`);
+    }
+  }
+
+  async set(name: string, credential: StoredCredential): Promise<void> {
+    assertCredentialName(name);
+    const file = (await this.read()) || { version: 1, salt: crypto.randomBytes(16).toString('base64'), entries: {} };
+    const key = await this.key(file.salt, true);
+
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const data = Buffer.concat([cipher.update(encodeSecret(credential), 'utf-8'), cipher.final()]);
+    file.entries[name] = {
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+
+    await this.write(file);
+  }
+
+  async delete(name: string): Promise<boolean> {
+    assertCredentialName(name);
+    const file = await this.read();
+    if (!file || !file.entries[name]) {
+      return false;
+    }
+    delete file.entries[name];
+    await this.write(file);
+    return true;
+  }
+
+  private async read(): Promise<EncryptedFile | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf-8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw new Error(`Cannot read credentials file ${this.filePath}: ${error.message}`);
+    }
+  }
+
+  private async write(file: EncryptedFile): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true, mode: 0o700 });
+    await fs.writeFile(this.filePath, JSON.stringify(file, null, 2), { mode: 0o600 });
+  }
+
+  private async key(salt: string, create: boolean): Promise<Buffer> {
+    if (hasCredentialsPassphrase()) {
+      return crypto.scryptSync(process.env.BASEQL_CREDENTIALS_PASSPHRASE!, Buffer.from(salt, 'base64'), 32);
+    }
+
+    try {
+      return Buffer.from((await fs.readFile(this.keyPath, 'utf-8')).trim(), 'base64');
+    } catch (error: any) {
+      if (error.code !== 'ENOENT' || !create) {
+        throw new Error(`Cannot read credentials key ${this.keyPath}: set BASEQL_CREDENTIALS_PASSPHRASE or restore the key file`);
+      }
+    }
+
+    const key = crypto.randomBytes(32);
+    await fs.mkdir(path.dirname(this.keyPath), { recursive: true, mode: 0o700 });
+    await fs.writeFile(this.keyPath, key.toString('base64'), { mode: 0o600 });
+    return key;
+  }
+}
+
+/**
+ * Whether the credentials file is encrypted with a passphrase rather than only obfuscated with
+ * the key file kept beside it.
+ */
+export function hasCredentialsPassphrase(): boolean {
+  return !!process.env.BASEQL_CREDENTIALS_PASSPHRASE;
+}
+
+export function defaultCredentialsFile(): string {
+  return process.env.BASEQL_CREDENTIALS_FILE || path.join(os.homedir(), '.config', CREDENTIAL_SERVICE, 'credentials.json');
+}
+
+async function hasSecretService(): Promise<boolean> {
+  // secret-tool needs a D-Bus session with a running keyring, which headless machines lack
+  if (!process.env.DBUS_SESSION_BUS_ADDRESS) {
+    return false;
+  }
+  try {
+    await runCommand('secret-tool', []);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Open the OS keychain when one is available, otherwise the encrypted credentials file.
+ * BASEQL_CREDENTIAL_STORE=file forces the file backend.
+ */
+export async function openCredentialStore(): Promise<CredentialStore> {
+  if (process.env.BASEQL_CREDENTIAL_STORE !== 'file') {
+    if (os.platform() === 'darwin') {
+      return new MacKeychainStore();
+    }
+    if (os.platform() === 'linux' && await hasSecretService()) {
+      return new SecretServiceStore();
+    }
+  }
+  return new EncryptedFileStore(defaultCredentialsFile());
+}
+
+/**
+ * Load a named credential, or explain how to create it.
+ */
+export async function loadCredential(name: string, store?: CredentialStore): Promise<StoredCredential> {
+  const credentialStore = store || await openCredentialStore();
+  const credential = await credentialStore.get(name);
+  if (!credential) {
+    throw new Error(
+      `No credential named "${name}" in ${credentialStore.location}. Run "baseql-mcp setup" and choose to store the API key securely.`
+    );
+  }
+  return credential;
+}
@@ -0,0 +1,180 @@
+import fs from 'fs';
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { CredentialStore, loadCredential, openCredentialStore } from './credentials.js';
+import { AccessPolicy, restrictPolicy } from './query-guard.js';
+import { baseqlError, closestMatches } from './errors.js';
+import { BaseQLClient, DEFAULT_REQUEST_POLICY, RequestPolicy } from './request-client.js';
+import { DEFAULT_SCHEMA_TTL_SECONDS, SchemaCache, SchemaModel } from './schema-cache.js';
+import { EndpointsFileSchema } from './validators.js';
+
+/** Name of the endpoint built from `--endpoint`/`--key` or the BASEQL_API_* variables */
+export const DEFAULT_ENDPOINT_NAME = 'default';
+
+export interface EndpointConfig {
+  name: string;
+  url: string;
+  apiKey: string;
+  /** Stored credential supplying the url and API key, resolved by resolveEndpointCredentials */
+  credential?: string;
+  description?: string;
+  /** Narrow the server-wide access policy for this endpoint; they can never loosen it */
+  allowWrites?: boolean;
+  allowedTables?: string[];
+  deniedTables?: string[];
+}
+
+export interface EndpointsConfig {
+  defaultEndpoint: string;
+  endpoints: EndpointConfig[];
+}
+
+/**
+ * One BaseQL endpoint with its client, schema cache and access policy.
+ */
+export interface EndpointConnection {
+  name: string;
+  url: string;
+  description?: string;
+  client: BaseQLClient;
+  schemaCache: SchemaCache;
+  accessPolicy: AccessPolicy;
+}
+
+// `${NAME}` in an API key is read from the environment, so the file itself need not hold secrets
+function interpolateEnv(value: string, location: string): string {
+  return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_match, variable: string) => {
+    const resolved = process.env[variable];
+    if (resolved === undefined) {
+      throw new Error(`${location} refers to environment variable ${variable}, which is not set`);
+    }
+    return resolved;
+  });
+}
+
+/**
+ * Read an endpoints file:
+ *
+ *   {
+ *     "defaultEndpoint": "crm",
+ *     "endpoints": {
+ *       "crm": { "url": "https://api.baseql.com/airtable/graphql/app...", "apiKey": "${CRM_BASEQL_KEY}" },
+ *       "events": { "url": "https://api.baseql.com/sheets/graphql/...", "apiKey": "Bearer ...", "description": "Event signups" }
+ *     }
+ *   }
+ */
+export function loadEndpointsFile(path: string): EndpointsConfig {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(path, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`Cannot read endpoints file ${path}: ${error.message}`);
+  }
+
+  const parsed = EndpointsFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new Error(`Invalid endpoints file ${path}: ${issues.join('; ')}`);
+  }
+
+  const endpoints = Object.entries(parsed.data.endpoints).map(([name, entry]) => ({
+    name,
+    ...entry,
+    url: entry.url || '',
+    apiKey: entry.apiKey ? interpolateEnv(entry.apiKey, `endpoints.${name}.apiKey`) : '',
+  }));
+
+  const defaultEndpoint = parsed.data.defaultEndpoint || endpoints[0].name;
+  if (!endpoints.some(endpoint => endpoint.name === defaultEndpoint)) {
+    throw new Error(`Invalid endpoints file ${path}: defaultEndpoint "${defaultEndpoint}" is not listed in endpoints`);
+  }
+
+  return { defaultEndpoint, endpoints };
+}
+
+/**
+ * Fill in endpoints that refer to a stored credential. The credential supplies the API key and,
+ * unless the entry sets its own url, the endpoint URL.
+ */
+export async function resolveEndpointCredentials(config: EndpointsConfig, store?: CredentialStore): Promise<EndpointsConfig> {
+  if (!config.endpoints.some(endpoint => endpoint.credential)) {
+    return config;
+  }
+
+  const credentialStore = store || await openCredentialStore();
+  const endpoints = await Promise.all(config.endpoints.map(async endpoint => {
+    if (!endpoint.credential) {
+      return endpoint;
+    }
+    const credential = await loadCredential(endpoint.credential, credentialStore);
+    return {
+      ...endpoint,
+      url: endpoint.url || credential.endpoint,
+      apiKey: endpoint.apiKey || credential.apiKey,
+    };
+  }));
+
+  return { ...config, endpoints };
+}
+
+/**
+ * The endpoints a server can reach, looked up by the optional `endpoint` tool argument.
+ */
+export class EndpointRegistry {
+  private connections = new Map<string, EndpointConnection>();
+  readonly defaultName: string;
+
+  constructor(
+    config: EndpointsConfig,
+    basePolicy: AccessPolicy,
+    schemaTtl: number = DEFAULT_SCHEMA_TTL_SECONDS,
+    requestPolicy: RequestPolicy = DEFAULT_REQUEST_POLICY
+  ) {
+    for (const endpoint of config.endpoints) {
+      // Each endpoint gets its own limiter and breaker, so one failing base does not stall the others
+      const client = new BaseQLClient(endpoint.url, endpoint.apiKey, requestPolicy, `"${endpoint.name}"`);
+      this.connections.set(endpoint.name, {
+        name: endpoint.name,
+        url: endpoint.url,
+        description: endpoint.description,
+        client,
+        schemaCache: new SchemaCache(client, schemaTtl),
+        // An endpoints file can only tighten what the server was started with
+        accessPolicy: restrictPolicy(basePolicy, endpoint),
+      });
+    }
+    this.defaultName = config.defaultEndpoint;
+  }
+
+  get names(): string[] {
+    return Array.from(this.connections.keys());
+  }
+
+  get size(): number {
+    return this.connections.size;
+  }
+
+  list(): EndpointConnection[] {
+    return Array.from(this.connections.values());
+  }
+
+  /**
+   * Resolve an `endpoint` argument, falling back to the default endpoint when it is omitted.
+   */
+  get(name?: unknown): EndpointConnection {
+    if (name !== undefined && typeof name !== 'string') {
+      throw new McpError(ErrorCode.InvalidRequest, "endpoint must be a string");
+    }
+    const connection = this.connections.get(name || this.defaultName);
+    if (!connection) {
+      throw baseqlError('NOT_FOUND', `Unknown endpoint "${name}".`, {
+        suggestions: closestMatches(String(name), this.names),
+        hint: `Available endpoints: ${this.names.join(', ')}`,
+      });
+    }
+    return connection;
+  }
+
+  async getSchema(name?: unknown): Promise<SchemaModel> {
+    return this.get(name).schemaCache.get();
+  }
+}
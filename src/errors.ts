@@ -0,0 +1,264 @@
+import { ClientError } from "graphql-request";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { CircuitOpenError, RateLimitError, RequestTimeoutError } from './request-client.js';
+import type { SchemaModel } from './schema-cache.js';
+
+/**
+ * What went wrong, independent of the wording of the message. Clients find it in `error.data.code`.
+ */
+export type BaseQLErrorCode =
+  /** An argument is missing, has the wrong type or an invalid value */
+  | 'INVALID_ARGUMENT'
+  | 'UNKNOWN_TABLE'
+  | 'UNKNOWN_FIELD'
+  /** A record or other named object does not exist */
+  | 'NOT_FOUND'
+  /** The table allow/deny lists exclude the table */
+  | 'ACCESS_DENIED'
+  /** A write was attempted while the server is read-only */
+  | 'WRITES_DISABLED'
+  /** BaseQL rejected the API key */
+  | 'AUTHENTICATION'
+  | 'RATE_LIMITED'
+  | 'TIMEOUT'
+  /** BaseQL could not be reached, answered with a 5xx, or the circuit breaker is open */
+  | 'UNAVAILABLE'
+  /** Any other non-2xx HTTP response */
+  | 'HTTP_ERROR'
+  /** BaseQL rejected the GraphQL document */
+  | 'GRAPHQL_ERROR'
+  | 'INTERNAL';
+
+export interface BaseQLErrorData {
+  code: BaseQLErrorCode;
+  /** What to do about it */
+  hint?: string;
+  /** Close matches for a misspelled table or field name */
+  suggestions?: string[];
+  /** HTTP status of the BaseQL response, when there was one */
+  status?: number;
+}
+
+// Problems with the request are the caller's to fix; everything else is reported as a server-side failure
+const CALLER_ERRORS: BaseQLErrorCode[] = [
+  'INVALID_ARGUMENT', 'UNKNOWN_TABLE', 'UNKNOWN_FIELD', 'NOT_FOUND', 'ACCESS_DENIED', 'WRITES_DISABLED', 'GRAPHQL_ERROR',
+];
+
+const MCP_PREFIX = /^MCP error -?\d+: /;
+
+/**
+ * Levenshtein distance, used to suggest names close to a misspelled one.
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Candidates close to `name`, nearest first. Case differences count as exact matches and
+ * candidates that contain the name (or the reverse) are kept even when the distance is large.
+ */
+export function closestMatches(name: string, candidates: string[], limit = 3): string[] {
+  const target = name.toLowerCase();
+  const threshold = Math.max(2, Math.floor(target.length / 3));
+
+  return candidates
+    .map(candidate => {
+      const lower = candidate.toLowerCase();
+      const distance = editDistance(target, lower);
+      const related = target.length >= 3 && (lower.includes(target) || target.includes(lower));
+      return { candidate, distance, related };
+    })
+    .filter(match => match.candidate !== name && (match.distance <= threshold || match.related))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit)
+    .map(match => match.candidate);
+}
+
+// Upstream messages may or may not end in a full stop
+function sentence(message: string): string {
+  return /[.!?]$/.test(message.trim()) ? message.trim() : `${message.trim()}.`;
+}
+
+function didYouMean(suggestions: string[]): string {
+  if (suggestions.length === 0) {
+    return '';
+  }
+  return ` Did you mean ${suggestions.map(s => `"${s}"`).join(' or ')}?`;
+}
+
+/**
+ * Build a coded error. The code, hint and suggestions go in the message as well as in `data`:
+ * the SDK only sends the code and message over JSON-RPC, and many clients only show the message.
+ */
+export function baseqlError(
+  code: BaseQLErrorCode,
+  message: string,
+  details: Omit<BaseQLErrorData, 'code'> = {}
+): McpError {
+  const suggestions = details.suggestions && details.suggestions.length > 0 ? details.suggestions : undefined;
+  const text = [
+    `[${code}] ${message}${didYouMean(suggestions || [])}`,
+    details.hint,
+  ].filter(Boolean).join(' ');
+
+  const mcpCode = CALLER_ERRORS.includes(code) ? ErrorCode.InvalidRequest : ErrorCode.InternalError;
+  return new McpError(mcpCode, text, { code, hint: details.hint, suggestions, status: details.status });
+}
+
+export function unknownTableError(tableName: string, tableNames: string[]): McpError {
+  return baseqlError('UNKNOWN_TABLE', `Table "${tableName}" not found.`, {
+    suggestions: closestMatches(tableName, tableNames),
+    hint: 'Use listTables to see available table names.',
+  });
+}
+
+/**
+ * `what` replaces the default `Field "x" not found` wording, e.g. `Cannot sort by "x": field not found`.
+ */
+export function unknownFieldError(fieldName: string, tableName: string, fieldNames: string[], what?: string): McpError {
+  return baseqlError('UNKNOWN_FIELD', `${what || `Field "${fieldName}" not found`} on table "${tableName}".`, {
+    suggestions: closestMatches(fieldName, fieldNames),
+    hint: 'Use getTableSchema to see available fields.',
+  });
+}
+
+export function errorData(error: unknown): BaseQLErrorData | undefined {
+  if (error instanceof McpError && error.data && typeof error.data === 'object' && 'code' in error.data) {
+    return error.data as BaseQLErrorData;
+  }
+  return undefined;
+}
+
+export interface ErrorContext {
+  /** What was being done, e.g. "query table"; becomes "Failed to query table: ..." */
+  action: string;
+  /** Schema of the endpoint, for field-name suggestions */
+  schema?: SchemaModel | null;
+}
+
+export function hintForGraphQLMessage(message: string): string | undefined {
+  if (/Unknown type "?Int"?/.test(message)) {
+    return 'BaseQL uses Float instead of Int for numbers.';
+  }
+  if (/Unknown argument/.test(message)) {
+    return 'BaseQL uses _filter, _page_size, _page and _order_by instead of standard GraphQL arguments.';
+  }
+  if (/Expected type|got invalid value/.test(message)) {
+    return 'Check the variable types against getTableSchema; _order_by directions are lowercase "asc"/"desc".';
+  }
+  return undefined;
+}
+
+function translateGraphQLMessage(message: string, context: ErrorContext): McpError {
+  const prefix = `Failed to ${context.action}:`;
+
+  const unknownField = message.match(/Cannot query field "([^"]+)" on type "([^"]+)"/);
+  if (unknownField) {
+    const [, fieldName, typeName] = unknownField;
+    const table = context.schema?.tables.get(typeName);
+    if (table) {
+      return baseqlError('UNKNOWN_FIELD', `${prefix} Field "${fieldName}" not found on table "${typeName}".`, {
+        suggestions: closestMatches(fieldName, table.fields.map(field => field.name)),
+        hint: 'Use getTableSchema to see available fields.',
+      });
+    }
+    const rootFields = context.schema ? Array.from(context.schema.tables.keys()) : [];
+    return baseqlError('UNKNOWN_FIELD', `${prefix} ${sentence(message)}`, {
+      suggestions: closestMatches(fieldName, rootFields),
+      hint: 'Field may not exist - use listTables and getTableSchema to see available names.',
+    });
+  }
+
+  return baseqlError('GRAPHQL_ERROR', `${prefix} ${sentence(message)}`, { hint: hintForGraphQLMessage(message) });
+}
+
+/**
+ * Turn any failure into a coded McpError with a hint. Coded errors pass through unchanged;
+ * plain McpErrors keep their message and gain a code.
+ */
+export function translateError(error: unknown, context: ErrorContext): McpError {
+  if (errorData(error)) {
+    return error as McpError;
+  }
+
+  if (error instanceof McpError) {
+    const message = error.message.replace(MCP_PREFIX, '');
+    const code: BaseQLErrorCode =
+      error.code === ErrorCode.InvalidRequest || error.code === ErrorCode.InvalidParams ? 'INVALID_ARGUMENT'
+        : error.code === ErrorCode.MethodNotFound ? 'NOT_FOUND'
+        : 'INTERNAL';
+    return new McpError(error.code, `[${code}] ${message}`, { code });
+  }
+
+  const prefix = `Failed to ${context.action}:`;
+
+  if (error instanceof RateLimitError) {
+    return baseqlError('RATE_LIMITED', `${prefix} ${sentence(error.message)}`, {
+      status: 429,
+      hint: 'Wait before retrying, or lower --max-concurrency for bulk runs.',
+    });
+  }
+  if (error instanceof RequestTimeoutError) {
+    return baseqlError('TIMEOUT', `${prefix} ${sentence(error.message)}`, {
+      hint: 'Narrow the request with a filter or smaller limit, or raise --timeout.',
+    });
+  }
+  if (error instanceof CircuitOpenError) {
+    return baseqlError('UNAVAILABLE', `${prefix} ${sentence(error.message)}`, {
+      hint: 'BaseQL is failing repeatedly; wait and try again.',
+    });
+  }
+
+  if (error instanceof ClientError) {
+    const status = error.response.status;
+    const graphQLMessage = error.response.errors?.[0]?.message;
+
+    if (status === 401 || status === 403) {
+      return baseqlError('AUTHENTICATION', `${prefix} BaseQL rejected the API key (HTTP ${status}).`, {
+        status,
+        hint: 'Check BASEQL_API_KEY (or the stored credential) and run "baseql-mcp validate".',
+      });
+    }
+    if (status === 429) {
+      return baseqlError('RATE_LIMITED', `${prefix} BaseQL rate limit exceeded.`, {
+        status,
+        hint: 'Wait before retrying, or lower --max-concurrency for bulk runs.',
+      });
+    }
+    if (status >= 500) {
+      return baseqlError('UNAVAILABLE', `${prefix} BaseQL returned HTTP ${status}.`, {
+        status,
+        hint: 'BaseQL or the underlying base is having trouble; try again shortly.',
+      });
+    }
+    if (graphQLMessage) {
+      return translateGraphQLMessage(graphQLMessage, context);
+    }
+    return baseqlError('HTTP_ERROR', `${prefix} BaseQL returned HTTP ${status}.`, {
+      status,
+      hint: status === 404 ? 'Check the endpoint URL.' : undefined,
+    });
+  }
+
+  // fetch rejects with a TypeError when the endpoint cannot be reached
+  if (error instanceof TypeError && /fetch|network|ECONN|ENOTFOUND|socket/i.test(`${error.message} ${(error as any).cause?.code || ''}`)) {
+    return baseqlError('UNAVAILABLE', `${prefix} cannot reach BaseQL (${(error as any).cause?.code || error.message}).`, {
+      hint: 'Check the endpoint URL and your network connection.',
+    });
+  }
+
+  const message = error instanceof Error ? error.message : "Unknown error";
+  return baseqlError('INTERNAL', `${prefix} ${message}`);
+}
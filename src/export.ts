@@ -0,0 +1,142 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import fsp from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { once } from 'events';
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { csvCell, flattenRecord } from './formatters.js';
+
+export const EXPORT_FORMATS = ['csv', 'json', 'ndjson'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const DEFAULT_EXPORT_DIR = path.join(os.homedir(), 'baseql-exports');
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * File name for an export: the given name (a plain file name, never a path, so exports stay
+ * inside the export directory) or `<table>-<timestamp>`, with the format's extension.
+ */
+export function exportFileName(tableName: string, format: ExportFormat, fileName?: string): string {
+  const extension = `.${format}`;
+  if (fileName === undefined) {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    return `${tableName}-${timestamp}${extension}`;
+  }
+  if (typeof fileName !== 'string' || !fileName || fileName !== path.basename(fileName) || fileName.startsWith('.') || /[\\/\0]/.test(fileName)) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `Invalid fileName ${JSON.stringify(fileName)}: use a plain file name such as "contacts-2024.csv"; exports are always written to the export directory`
+    );
+  }
+  return fileName.toLowerCase().endsWith(extension) ? fileName : `${fileName}${extension}`;
+}
+
+export interface ExportResult {
+  path: string;
+  format: ExportFormat;
+  rows: number;
+  bytes: number;
+  sha256: string;
+}
+
+/**
+ * Streams records to an export file page by page, so a whole table is never held in memory.
+ * Data goes to a `.partial` file that is moved into place once complete, never over an existing
+ * file, and removed on abort.
+ * CSV columns are fixed up front (from the selection) so every page lines up with the header.
+ */
+export class ExportWriter {
+  private stream: fs.WriteStream;
+  private hash = crypto.createHash('sha256');
+  private rows = 0;
+  private bytes = 0;
+
+  private constructor(
+    readonly path: string,
+    private partialPath: string,
+    readonly format: ExportFormat,
+    private columns: string[]
+  ) {
+    this.stream = fs.createWriteStream(partialPath, { flags: 'wx' });
+  }
+
+  static async open(dir: string, fileName: string, format: ExportFormat, columns: string[]): Promise<ExportWriter> {
+    await fsp.mkdir(dir, { recursive: true });
+    const target = path.join(dir, fileName);
+    if (fs.existsSync(target)) {
+      throw new McpError(ErrorCode.InvalidRequest, `Export file ${target} already exists; choose another fileName`);
+    }
+
+    const writer = new ExportWriter(target, `${target}.partial`, format, columns);
+    await once(writer.stream, 'open');
+    if (format === 'csv') {
+      await writer.append(`${columns.map(csvCell).join(',')}\n`);
+    } else if (format === 'json') {
+      await writer.append('[');
+    }
+    return writer;
+  }
+
+  async write(records: Record<string, unknown>[]): Promise<void> {
+    for (const record of records) {
+      switch (this.format) {
+        case 'csv': {
+          const flat = flattenRecord(record);
+          await this.append(`${this.columns.map(column => csvCell(flat[column])).join(',')}\n`);
+          break;
+        }
+        case 'json':
+          await this.append(`${this.rows === 0 ? '\n' : ',\n'}  ${JSON.stringify(record)}`);
+          break;
+        default:
+          await this.append(`${JSON.stringify(record)}\n`);
+      }
+      this.rows++;
+    }
+  }
+
+  async finish(): Promise<ExportResult> {
+    if (this.format === 'json') {
+      await this.append(this.rows === 0 ? ']\n' : '\n]\n');
+    }
+    this.stream.end();
+    await once(this.stream, 'finish');
+    // Linking fails if another export took the name since open(); a rename would overwrite it
+    try {
+      await fsp.link(this.partialPath, this.path);
+    } catch (error: any) {
+      if (error.code === 'EEXIST') {
+        await fsp.rm(this.partialPath, { force: true });
+        throw new McpError(ErrorCode.InvalidRequest, `Export file ${this.path} already exists; choose another fileName`);
+      }
+      throw error;
+    }
+    await fsp.rm(this.partialPath, { force: true });
+
+    return {
+      path: this.path,
+      format: this.format,
+      rows: this.rows,
+      bytes: this.bytes,
+      sha256: this.hash.digest('hex'),
+    };
+  }
+
+  async abort(): Promise<void> {
+    this.stream.destroy();
+    await fsp.rm(this.partialPath, { force: true });
+  }
+
+  private async append(text: string): Promise<void> {
+    const chunk = Buffer.from(text, 'utf-8');
+    this.hash.update(chunk);
+    this.bytes += chunk.length;
+    if (!this.stream.write(chunk)) {
+      await once(this.stream, 'drain');
+    }
+  }
+}
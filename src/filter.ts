@@ -0,0 +1,348 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { baseqlError, closestMatches } from "./errors.js";
+
+/**
+ * Filter expression accepted by the table tools. Plain values mean equality (the original
+ * `{"type": "Student"}` form); objects hold operators; `and` / `or` / `not` combine
+ * sub-filters:
+ *
+ *   {
+ *     "status": "Open",
+ *     "amount": { "gt": 100 },
+ *     "created": { "between": ["2024-01-01", "2024-03-31"] },
+ *     "or": [{ "type": "Student" }, { "email": { "contains": "umd.edu" } }],
+ *     "not": { "stage": { "in": ["Closed", "Spam"] } }
+ *   }
+ */
+export type FilterInput = Record<string, any>;
+
+export const FILTER_OPERATORS = [
+  'eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'between', 'in', 'notIn',
+  'contains', 'startsWith', 'isEmpty', 'before', 'after',
+] as const;
+
+export type FilterOperator = typeof FILTER_OPERATORS[number];
+
+export type FilterNode =
+  | { type: 'and'; children: FilterNode[] }
+  | { type: 'or'; children: FilterNode[] }
+  | { type: 'not'; child: FilterNode }
+  | { type: 'condition'; field: string; op: FilterOperator; value: any };
+
+export interface FilterPlan {
+  /** Equality conditions BaseQL evaluates natively through `_filter` */
+  pushed: Record<string, any>;
+  /** Everything else, evaluated client-side over the fetched records */
+  residual: FilterNode | null;
+  /** Fields the residual filter reads, which must be selected from BaseQL */
+  residualFields: string[];
+}
+
+function invalid(message: string): McpError {
+  return new McpError(ErrorCode.InvalidRequest, `Invalid filter: ${message}`);
+}
+
+function isOperatorObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function parseCondition(field: string, value: any): FilterNode[] {
+  if (!isOperatorObject(value)) {
+    return [{ type: 'condition', field, op: 'eq', value }];
+  }
+
+  const ops = Object.keys(value);
+  if (ops.length === 0) {
+    throw invalid(`"${field}" has an empty operator object`);
+  }
+
+  return ops.map(op => {
+    if (!(FILTER_OPERATORS as readonly string[]).includes(op)) {
+      throw invalid(`unknown operator "${op}" on "${field}". Use one of: ${FILTER_OPERATORS.join(', ')}`);
+    }
+    const operand = value[op];
+
+    if (op === 'between' && (!Array.isArray(operand) || operand.length !== 2)) {
+      throw invalid(`"between" on "${field}" needs [from, to]`);
+    }
+    if ((op === 'in' || op === 'notIn') && !Array.isArray(operand)) {
+      throw invalid(`"${op}" on "${field}" needs an array of values`);
+    }
+    if ((op === 'contains' || op === 'startsWith') && typeof operand !== 'string') {
+      throw invalid(`"${op}" on "${field}" needs a string`);
+    }
+    if (op === 'isEmpty' && typeof operand !== 'boolean') {
+      throw invalid(`"isEmpty" on "${field}" needs true or false`);
+    }
+
+    return { type: 'condition', field, op: op as FilterOperator, value: operand };
+  });
+}
+
+/**
+ * Parse a filter input into an expression tree, rejecting unknown operators and malformed operands.
+ */
+export function parseFilter(input: FilterInput): FilterNode {
+  if (!isOperatorObject(input)) {
+    throw invalid('expected an object');
+  }
+
+  const children: FilterNode[] = [];
+
+  for (const [key, value] of Object.entries(input)) {
+    if (key === 'and' || key === 'or') {
+      if (!Array.isArray(value) || value.length === 0) {
+        throw invalid(`"${key}" needs a non-empty array of filters`);
+      }
+      children.push({ type: key, children: value.map(parseFilter) });
+    } else if (key === 'not') {
+      children.push({ type: 'not', child: parseFilter(value) });
+    } else {
+      children.push(...parseCondition(key, value));
+    }
+  }
+
+  return children.length === 1 ? children[0] : { type: 'and', children };
+}
+
+/**
+ * List every field a filter expression refers to.
+ */
+export function filterFields(node: FilterNode): string[] {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return Array.from(new Set(node.children.flatMap(filterFields)));
+    case 'not':
+      return filterFields(node.child);
+    case 'condition':
+      return [node.field];
+  }
+}
+
+/**
+ * Split a filter into the part BaseQL can evaluate (a conjunction of equality matches)
+ * and a residual evaluated client-side.
+ */
+export function planFilter(input?: FilterInput): FilterPlan {
+  if (!input || Object.keys(input).length === 0) {
+    return { pushed: {}, residual: null, residualFields: [] };
+  }
+
+  const root = parseFilter(input);
+  const conjuncts: FilterNode[] = [];
+  const flatten = (node: FilterNode) => {
+    if (node.type === 'and') {
+      node.children.forEach(flatten);
+    } else {
+      conjuncts.push(node);
+    }
+  };
+  flatten(root);
+
+  const pushed: Record<string, any> = {};
+  const residual: FilterNode[] = [];
+
+  for (const node of conjuncts) {
+    const pushable = node.type === 'condition' &&
+      (node.op === 'eq' || (node.op === 'in' && node.value.length === 1)) &&
+      !(node.field in pushed);
+
+    if (pushable) {
+      pushed[node.field] = node.op === 'in' ? node.value[0] : node.value;
+    } else {
+      residual.push(node);
+    }
+  }
+
+  const residualNode = residual.length === 0
+    ? null
+    : residual.length === 1 ? residual[0] : { type: 'and' as const, children: residual };
+
+  return {
+    pushed,
+    residual: residualNode,
+    residualFields: residualNode ? filterFields(residualNode) : [],
+  };
+}
+
+/**
+ * Render a filter expression as readable text for responses.
+ */
+export function describeFilter(node: FilterNode): string {
+  switch (node.type) {
+    case 'and':
+      return node.children.map(describeFilter).join(' AND ');
+    case 'or':
+      return `(${node.children.map(describeFilter).join(' OR ')})`;
+    case 'not':
+      return `NOT (${describeFilter(node.child)})`;
+    case 'condition':
+      return `${node.field} ${node.op} ${JSON.stringify(node.value)}`;
+  }
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+// A date-time without "Z" or an offset, e.g. "2024-03-31T15:00" or "2024-03-31 15:00:00"
+const ZONELESS_DATE_TIME = /^(\d{4}-\d{2}-\d{2})[T ](\d{2}:\d{2}(:\d{2}(\.\d+)?)?)$/;
+
+// A plain date stands for its whole day, so bounds that must clear the day (lte and the upper end
+// of between include it; gt and after exclude it) compare against its last millisecond:
+// lte "2024-03-31" keeps 2024-03-31T15:00, after "2024-03-31" does not
+function endOfDay(bound: any): any {
+  return typeof bound === 'string' && DATE_ONLY_PATTERN.test(bound) ? `${bound}T23:59:59.999Z` : bound;
+}
+
+// Every date is read as UTC, like BaseQL's own date-only values; Date.parse would read
+// date-times without a zone in the server's local time instead
+function parseDate(value: string): number {
+  const zoneless = value.match(ZONELESS_DATE_TIME);
+  return Date.parse(zoneless ? `${zoneless[1]}T${zoneless[2]}Z` : value);
+}
+
+function toComparable(value: any): number | string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'string' && DATE_PATTERN.test(value)) {
+    const time = parseDate(value);
+    if (!isNaN(time)) {
+      return time;
+    }
+  }
+  return String(value);
+}
+
+function compare(a: any, b: any): number | null {
+  const left = toComparable(a);
+  const right = toComparable(b);
+  if (left === null || right === null) {
+    return null;
+  }
+  if (typeof left === 'number' && typeof right === 'number') {
+    return left - right;
+  }
+  return String(left).localeCompare(String(right));
+}
+
+function isEmptyValue(value: any): boolean {
+  return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+function valuesEqual(recordValue: any, expected: any): boolean {
+  if (Array.isArray(recordValue)) {
+    if (Array.isArray(expected)) {
+      return expected.every(item => recordValue.some(value => valuesEqual(value, item)));
+    }
+    // Multi-select and linked fields match when any element equals the value
+    return recordValue.some(value => valuesEqual(value, expected));
+  }
+  if (recordValue !== null && typeof recordValue === 'object' && 'id' in recordValue) {
+    return recordValue.id === expected;
+  }
+  return recordValue === expected || compare(recordValue, expected) === 0;
+}
+
+function textMatches(recordValue: any, test: (text: string) => boolean): boolean {
+  const values = Array.isArray(recordValue) ? recordValue : [recordValue];
+  return values.some(value => value !== null && value !== undefined && test(String(value).toLowerCase()));
+}
+
+function evaluateCondition(record: Record<string, any>, field: string, op: FilterOperator, operand: any): boolean {
+  const value = record[field];
+
+  switch (op) {
+    case 'eq':
+      return valuesEqual(value, operand);
+    case 'ne':
+      return !valuesEqual(value, operand);
+    case 'in':
+      return operand.some((item: any) => valuesEqual(value, item));
+    case 'notIn':
+      return !operand.some((item: any) => valuesEqual(value, item));
+    case 'gt':
+    case 'after': {
+      const result = compare(value, endOfDay(operand));
+      return result !== null && result > 0;
+    }
+    case 'gte': {
+      const result = compare(value, operand);
+      return result !== null && result >= 0;
+    }
+    case 'lt':
+    case 'before': {
+      const result = compare(value, operand);
+      return result !== null && result < 0;
+    }
+    case 'lte': {
+      const result = compare(value, endOfDay(operand));
+      return result !== null && result <= 0;
+    }
+    case 'between': {
+      const low = compare(value, operand[0]);
+      const high = compare(value, endOfDay(operand[1]));
+      return low !== null && high !== null && low >= 0 && high <= 0;
+    }
+    case 'contains':
+      return textMatches(value, text => text.includes(operand.toLowerCase()));
+    case 'startsWith':
+      return textMatches(value, text => text.startsWith(operand.toLowerCase()));
+    case 'isEmpty':
+      return isEmptyValue(value) === operand;
+  }
+}
+
+/**
+ * Evaluate a filter expression against a fetched record.
+ */
+export function matchesFilter(record: Record<string, any>, node: FilterNode): boolean {
+  switch (node.type) {
+    case 'and':
+      return node.children.every(child => matchesFilter(record, child));
+    case 'or':
+      return node.children.some(child => matchesFilter(record, child));
+    case 'not':
+      return !matchesFilter(record, node.child);
+    case 'condition':
+      return evaluateCondition(record, node.field, node.op, node.value);
+  }
+}
+
+/**
+ * Keep only the records matching the plan's client-side residual filter.
+ */
+export function applyResidualFilter<T extends Record<string, any>>(records: T[], plan: FilterPlan): T[] {
+  const residual = plan.residual;
+  return residual ? records.filter(record => matchesFilter(record, residual)) : records;
+}
+
+/**
+ * Summarize where each part of a filter ran, for tool responses.
+ */
+export function describeFilterPlan(plan: FilterPlan): { pushedDown: Record<string, any> | null; clientSide: string | null } {
+  return {
+    pushedDown: Object.keys(plan.pushed).length > 0 ? plan.pushed : null,
+    clientSide: plan.residual ? describeFilter(plan.residual) : null,
+  };
+}
+
+/**
+ * Reject filters that refer to fields the table does not have.
+ */
+export function assertFilterFields(plan: FilterPlan, tableName: string, knownFields: string[]): void {
+  const unknown = [...Object.keys(plan.pushed), ...plan.residualFields].filter(field => !knownFields.includes(field));
+  if (unknown.length > 0) {
+    throw baseqlError(
+      'UNKNOWN_FIELD',
+      `Invalid filter: unknown field${unknown.length > 1 ? 's' : ''} ${unknown.map(f => `"${f}"`).join(', ')} on table "${tableName}".`,
+      {
+        suggestions: unknown.flatMap(field => closestMatches(field, knownFields, 1)),
+        hint: 'Use getTableSchema to see available fields.',
+      }
+    );
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * Output formats for tool results. `json` is indented JSON; the others trade readability for
+ * context space. Tabular formats (csv, markdown, ndjson) render the result's records and move
+ * everything else (paging, filter plan, cache info) into a compact JSON metadata block.
+ */
+export const OUTPUT_FORMATS = ['json', 'compact', 'csv', 'markdown', 'ndjson'] as const;
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+export const DEFAULT_OUTPUT_FORMAT: OutputFormat = 'json';
+
+export const FORMAT_DESCRIPTION =
+  'Output format: "json" (indented), "compact" (single-line JSON), "csv", "markdown" (table) or "ndjson" (one record per line). ' +
+  'CSV and Markdown flatten linked records and arrays into columns such as "company.name"; paging and other details follow the records as compact JSON.';
+
+export interface TextContent {
+  type: "text";
+  text: string;
+}
+
+/** Total characters of rendered content, for comparing against the response budget */
+export function contentLength(content: TextContent[]): number {
+  return content.reduce((total, item) => total + item.text.length, 0);
+}
+
+export function isOutputFormat(value: unknown): value is OutputFormat {
+  return typeof value === 'string' && (OUTPUT_FORMATS as readonly string[]).includes(value);
+}
+
+type Row = Record<string, unknown>;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function scalarText(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Flatten a record into dotted columns. Nested objects become `parent.child`; arrays of scalars
+ * are joined with "; "; arrays of objects (linked records) become one column per sub-field with
+ * the values joined in record order, e.g. `company.name: "Acme; Globex"`.
+ */
+export function flattenRecord(record: Row, prefix = '', out: Row = {}): Row {
+  for (const [key, value] of Object.entries(record)) {
+    const column = prefix ? `${prefix}.${key}` : key;
+
+    if (isPlainObject(value)) {
+      flattenRecord(value, column, out);
+    } else if (Array.isArray(value) && value.some(isPlainObject)) {
+      const flattened: Row[] = value.map(item => (isPlainObject(item) ? flattenRecord(item) : { '': item }));
+      const keys = Array.from(new Set(flattened.flatMap(item => Object.keys(item))));
+      for (const subKey of keys) {
+        // Empty values keep their slot so the nth entry of every sub-column is the same linked record
+        out[subKey ? `${column}.${subKey}` : column] = flattened
+          .map(item => scalarText(item[subKey]))
+          .join('; ');
+      }
+    } else if (Array.isArray(value)) {
+      out[column] = value.map(scalarText).join('; ');
+    } else {
+      out[column] = value;
+    }
+  }
+  return out;
+}
+
+function columnsOf(rows: Row[]): string[] {
+  const columns: string[] = [];
+  const seen = new Set<string>();
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (!seen.has(key)) {
+        seen.add(key);
+        columns.push(key);
+      }
+    }
+  }
+  return columns;
+}
+
+export function csvCell(value: unknown): string {
+  const text = scalarText(value);
+  return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(records: Row[]): string {
+  const rows = records.map(record => flattenRecord(record));
+  const columns = columnsOf(rows);
+  return [
+    columns.map(csvCell).join(','),
+    ...rows.map(row => columns.map(column => csvCell(row[column])).join(',')),
+  ].join('\n');
+}
+
+function markdownCell(value: unknown): string {
+  return scalarText(value).replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+export function toMarkdown(records: Row[]): string {
+  const rows = records.map(record => flattenRecord(record));
+  const columns = columnsOf(rows);
+  if (columns.length === 0) {
+    return '_No records_';
+  }
+  return [
+    `| ${columns.map(markdownCell).join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${columns.map(column => markdownCell(row[column])).join(' | ')} |`),
+  ].join('\n');
+}
+
+/**
+ * Records as a plain-text table with aligned columns, for terminals. Cells longer than
+ * `maxWidth` are cut with an ellipsis.
+ */
+export function toTextTable(records: Row[], maxWidth = 60): string {
+  const rows = records.map(record => flattenRecord(record));
+  const columns = columnsOf(rows);
+  if (columns.length === 0) {
+    return '(no records)';
+  }
+
+  const cell = (value: unknown) => {
+    const text = scalarText(value).replace(/\r?\n/g, ' ');
+    return text.length > maxWidth ? `${text.slice(0, maxWidth - 1)}…` : text;
+  };
+  const cells = rows.map(row => columns.map(column => cell(row[column])));
+  const widths = columns.map((column, i) => Math.max(column.length, ...cells.map(row => row[i].length)));
+  const line = (values: string[]) => values.map((value, i) => value.padEnd(widths[i])).join('  ').trimEnd();
+
+  return [
+    line(columns),
+    line(widths.map(width => '-'.repeat(width))),
+    ...cells.map(line),
+  ].join('\n');
+}
+
+export function toNdjson(records: Row[]): string {
+  return records.map(record => JSON.stringify(record)).join('\n');
+}
+
+function renderRows(records: Row[], format: OutputFormat): string {
+  switch (format) {
+    case 'csv':
+      return toCsv(records);
+    case 'markdown':
+      return toMarkdown(records);
+    default:
+      return toNdjson(records);
+  }
+}
+
+/**
+ * Where a result keeps its records: one property (`rows`, `results`, the table name, ...) or,
+ * for raw GraphQL results, every root field that holds a list.
+ */
+export type RowsLocation = { key: string } | { rootLists: true };
+
+/**
+ * Keys of the record lists in a result.
+ */
+export function recordListKeys(data: unknown, rows?: RowsLocation): string[] {
+  if (!rows || !isPlainObject(data)) {
+    return [];
+  }
+  const keys = 'key' in rows
+    ? [rows.key]
+    : Object.keys(data).filter(key => Array.isArray(data[key]) && (data[key] as unknown[]).every(isPlainObject));
+  return keys.filter(key => Array.isArray(data[key]));
+}
+
+/**
+ * Render a tool result in the requested format as MCP text content.
+ */
+export function formatResult(data: unknown, format: OutputFormat, rows?: RowsLocation): TextContent[] {
+  if (format === 'json') {
+    return [{ type: "text", text: JSON.stringify(data, null, 2) }];
+  }
+  if (format === 'compact' || !rows || !isPlainObject(data)) {
+    return [{ type: "text", text: JSON.stringify(data) }];
+  }
+
+  const tables = recordListKeys(data, rows);
+  if (tables.length === 0) {
+    return [{ type: "text", text: JSON.stringify(data) }];
+  }
+
+  const content: TextContent[] = tables.map(key => {
+    const text = renderRows(data[key] as Row[], format);
+    // Name each block when a raw query returned several lists
+    return { type: "text", text: tables.length > 1 && format === 'markdown' ? `### ${key}\n\n${text}` : text };
+  });
+
+  const metadata: Record<string, unknown> = Object.fromEntries(Object.entries(data).filter(([key]) => !tables.includes(key)));
+  if (tables.length > 1) {
+    // The record blocks above, in order
+    metadata._lists = tables;
+  }
+  if (Object.values(metadata).some(value => value !== undefined)) {
+    content.push({ type: "text", text: JSON.stringify(metadata) });
+  }
+  return content;
+}
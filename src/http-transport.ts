@@ -0,0 +1,218 @@
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+export const DEFAULT_HTTP_HOST = '127.0.0.1';
+export const DEFAULT_HTTP_PORT = 3000;
+
+const MCP_PATH = '/mcp';
+const SSE_PATH = '/sse';
+const SSE_MESSAGES_PATH = '/messages';
+const HEALTH_PATH = '/health';
+
+// Reject request bodies larger than this to keep a misbehaving client from exhausting memory
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+class BodyTooLargeError extends Error {
+  constructor(limit: number) {
+    super(`Request body exceeds ${limit} bytes`);
+    this.name = 'BodyTooLargeError';
+  }
+}
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  version: string;
+}
+
+/**
+ * Start an HTTP server exposing the MCP server over Streamable HTTP (`/mcp`),
+ * the legacy SSE transport (`/sse` + `/messages`) and a `/health` endpoint.
+ * Each client session gets its own MCP server instance from `createServer`.
+ */
+export async function startHttpTransport(
+  createServer: () => Server,
+  options: HttpTransportOptions
+): Promise<{ httpServer: http.Server; url: string }> {
+  const streamableSessions = new Map<string, StreamableHTTPServerTransport>();
+  const sseSessions = new Map<string, SSEServerTransport>();
+  const startedAt = Date.now();
+
+  const handleStreamable = async (req: IncomingMessage, res: ServerResponse) => {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    const existing = sessionId ? streamableSessions.get(sessionId) : undefined;
+
+    if (req.method === 'POST') {
+      const body = await readJsonBody(req);
+
+      if (existing) {
+        await existing.handleRequest(req, res, body);
+        return;
+      }
+
+      if (sessionId) {
+        sendJsonRpcError(res, 404, 'Session not found');
+        return;
+      }
+
+      if (!isInitializeRequest(body)) {
+        sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+        return;
+      }
+
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          streamableSessions.set(id, transport);
+        },
+      });
+
+      transport.onclose = () => {
+        if (transport.sessionId) {
+          streamableSessions.delete(transport.sessionId);
+        }
+      };
+
+      await createServer().connect(transport);
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method === 'GET' || req.method === 'DELETE') {
+      if (!existing) {
+        sendJsonRpcError(res, sessionId ? 404 : 400, sessionId ? 'Session not found' : 'Bad Request: No valid session ID provided');
+        return;
+      }
+      await existing.handleRequest(req, res);
+      return;
+    }
+
+    res.writeHead(405, { Allow: 'GET, POST, DELETE' }).end();
+  };
+
+  const handleSseStream = async (res: ServerResponse) => {
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    sseSessions.set(transport.sessionId, transport);
+
+    res.on('close', () => {
+      sseSessions.delete(transport.sessionId);
+    });
+
+    await createServer().connect(transport);
+  };
+
+  const handleSseMessage = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+    const sessionId = url.searchParams.get('sessionId') || '';
+    const transport = sseSessions.get(sessionId);
+
+    if (!transport) {
+      sendJsonRpcError(res, 404, 'Session not found');
+      return;
+    }
+
+    const body = await readJsonBody(req);
+    await transport.handlePostMessage(req, res, body);
+  };
+
+  const httpServer = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+    try {
+      if (url.pathname === HEALTH_PATH && req.method === 'GET') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({
+          status: 'ok',
+          version: options.version,
+          uptimeSeconds: Math.round((Date.now() - startedAt) / 1000),
+          sessions: {
+            streamableHttp: streamableSessions.size,
+            sse: sseSessions.size,
+          },
+        }));
+        return;
+      }
+
+      if (url.pathname === MCP_PATH) {
+        await handleStreamable(req, res);
+        return;
+      }
+
+      if (url.pathname === SSE_PATH && req.method === 'GET') {
+        await handleSseStream(res);
+        return;
+      }
+
+      if (url.pathname === SSE_MESSAGES_PATH && req.method === 'POST') {
+        await handleSseMessage(req, res, url);
+        return;
+      }
+
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: `Not found: ${url.pathname}` }));
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        sendJsonRpcError(res, 400, 'Parse error: request body is not valid JSON', -32700);
+        return;
+      }
+      if (error instanceof BodyTooLargeError) {
+        // The rest of the body is never read, so close the connection instead of reusing it
+        res.setHeader('Connection', 'close');
+        sendJsonRpcError(res, 413, error.message, -32600);
+        return;
+      }
+      console.error('HTTP transport error:', error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, 'Internal server error', -32603);
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const shutdown = async () => {
+    for (const transport of [...streamableSessions.values(), ...sseSessions.values()]) {
+      await transport.close().catch(() => undefined);
+    }
+    httpServer.closeAllConnections();
+    httpServer.close(() => process.exit(0));
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+
+  return { httpServer, url: `http://${options.host}:${options.port}${MCP_PATH}` };
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new BodyTooLargeError(MAX_BODY_BYTES);
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  const raw = Buffer.concat(chunks).toString('utf-8');
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string, code = -32000) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null,
+  }));
+}
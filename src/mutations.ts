@@ -0,0 +1,276 @@
+import { ArgumentNode, SelectionSetNode, VariableDefinitionNode } from "graphql";
+import { ArgInfo, FieldInfo, MutationInfo, SchemaModel, TypeRef, requireTable, typeRefToString, unwrapType } from './schema-cache.js';
+import { fieldNode, printOperation, selectionSet, variableArgument, variableDefinition } from './query-builder.js';
+import { baseqlError, closestMatches } from './errors.js';
+
+export type MutationKind = 'create' | 'update' | 'delete';
+
+export interface TableMutation extends MutationInfo {
+  kind: MutationKind;
+}
+
+export interface TableMutations {
+  tableName: string;
+  tableFields: FieldInfo[];
+  create?: TableMutation;
+  update?: TableMutation;
+  delete?: TableMutation;
+}
+
+const KIND_PREFIXES: Record<MutationKind, string[]> = {
+  create: ['create', 'insert', 'add'],
+  update: ['update', 'edit'],
+  delete: ['delete', 'remove', 'destroy'],
+};
+
+// Argument names BaseQL and similar GraphQL layers use to identify the record being changed
+const ID_ARG_NAMES = ['id', '_id', 'recordId'];
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function singularize(name: string): string {
+  return name.endsWith('s') ? name.slice(0, -1) : name;
+}
+
+/**
+ * Work out which record operation a mutation performs on which table, based on its
+ * name (`insert_contacts`, `createContact`, ...) and falling back to its return type.
+ */
+function classifyMutation(mutationName: string, returnType: TypeRef, tableName: string): MutationKind | null {
+  const normalized = normalizeName(mutationName);
+  const table = normalizeName(tableName);
+  const returnsTable = unwrapType(returnType).name === tableName;
+
+  for (const kind of Object.keys(KIND_PREFIXES) as MutationKind[]) {
+    for (const prefix of KIND_PREFIXES[kind]) {
+      if (!normalized.startsWith(prefix)) {
+        continue;
+      }
+      const rest = normalized.slice(prefix.length);
+      if (rest === table || singularize(rest) === singularize(table) || (rest === '' && returnsTable)) {
+        return kind;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find the insert/update/delete mutations BaseQL exposes for a table, along with the
+ * table's own fields so record values can be checked before anything is sent.
+ */
+export function discoverTableMutations(schema: SchemaModel, tableName: string): TableMutations {
+  const table = requireTable(schema, tableName);
+
+  const result: TableMutations = {
+    tableName,
+    tableFields: table.fields,
+  };
+
+  for (const mutation of schema.mutations) {
+    const kind = classifyMutation(mutation.name, mutation.returnType, tableName);
+    if (kind && !result[kind]) {
+      result[kind] = { ...mutation, kind };
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Find the mutation for an operation, or explain that the table does not support it.
+ */
+export function requireMutation(mutations: TableMutations, kind: MutationKind): TableMutation {
+  const mutation = mutations[kind];
+  if (!mutation) {
+    throw baseqlError(
+      'NOT_FOUND',
+      `No ${kind} mutation found for table "${mutations.tableName}".`,
+      { hint: 'Your BaseQL endpoint may be read-only or not expose mutations for this table.' }
+    );
+  }
+  return mutation;
+}
+
+/**
+ * Check a value against a GraphQL input type, returning a description of the problem or null.
+ */
+function checkValue(value: any, type: TypeRef, path: string): string | null {
+  if (type.kind === 'NON_NULL' && type.ofType) {
+    if (value === null || value === undefined) {
+      return `${path} is required (${typeRefToString(type)})`;
+    }
+    return checkValue(value, type.ofType, path);
+  }
+
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  if (type.kind === 'LIST' && type.ofType) {
+    if (!Array.isArray(value)) {
+      return `${path} must be an array (${typeRefToString(type)})`;
+    }
+    for (let i = 0; i < value.length; i++) {
+      const problem = checkValue(value[i], type.ofType, `${path}[${i}]`);
+      if (problem) {
+        return problem;
+      }
+    }
+    return null;
+  }
+
+  switch (type.kind === 'SCALAR' ? type.name : type.kind) {
+    case 'String':
+    case 'ENUM':
+      return typeof value === 'string' ? null : `${path} must be a string`;
+    case 'ID':
+      return typeof value === 'string' || typeof value === 'number' ? null : `${path} must be a string ID`;
+    case 'Float':
+      return typeof value === 'number' && isFinite(value) ? null : `${path} must be a number`;
+    case 'Int':
+      return Number.isInteger(value) ? null : `${path} must be an integer`;
+    case 'Boolean':
+      return typeof value === 'boolean' ? null : `${path} must be true or false`;
+    case 'INPUT_OBJECT':
+      return typeof value === 'object' && !Array.isArray(value) ? null : `${path} must be an object`;
+    default:
+      // Custom scalars (JSON, DateTime, ...) are passed through for the server to validate
+      return null;
+  }
+}
+
+function findIdArg(mutation: TableMutation): ArgInfo | undefined {
+  return mutation.args.find(arg => ID_ARG_NAMES.includes(arg.name));
+}
+
+/**
+ * Build a mutation document and its variables for a record operation. Field names and
+ * value types are validated against both the table fields and the mutation arguments.
+ */
+export function buildRecordMutation(
+  mutations: TableMutations,
+  mutation: TableMutation,
+  options: { id?: string; fields?: Record<string, any> }
+): { query: string; variables: Record<string, any> } {
+  const fields = options.fields || {};
+  const problems: string[] = [];
+  const variables: Record<string, any> = {};
+  const variableDefinitions: VariableDefinitionNode[] = [];
+  const callArgs: ArgumentNode[] = [];
+  const tableFieldNames = new Set(mutations.tableFields.map(f => f.name));
+
+  const idArg = findIdArg(mutation);
+  if (mutation.kind !== 'create') {
+    if (!options.id || typeof options.id !== 'string') {
+      problems.push('id is required and must be a record ID string');
+    }
+    if (!idArg) {
+      problems.push(`Mutation "${mutation.name}" has no id argument`);
+    } else {
+      variableDefinitions.push(variableDefinition(idArg.name, idArg.typeRef));
+      callArgs.push(variableArgument(idArg.name, idArg.name));
+      variables[idArg.name] = options.id;
+    }
+  }
+
+  if (mutation.kind !== 'delete') {
+    if (Object.keys(fields).length === 0) {
+      problems.push('fields must contain at least one field to set');
+    }
+
+    for (const fieldName of Object.keys(fields)) {
+      if (ID_ARG_NAMES.includes(fieldName)) {
+        problems.push(`${fieldName} cannot be set directly`);
+      } else if (!tableFieldNames.has(fieldName)) {
+        const suggestion = closestMatches(fieldName, Array.from(tableFieldNames), 1)[0];
+        problems.push(`Unknown field "${fieldName}" on table "${mutations.tableName}"${suggestion ? ` (did you mean "${suggestion}"?)` : ''}`);
+      }
+    }
+
+    const recordArgs = mutation.args.filter(arg => arg !== idArg);
+    const inputArg = recordArgs.length === 1 && recordArgs[0].inputFields ? recordArgs[0] : undefined;
+    const writable = inputArg ? inputArg.inputFields! : recordArgs;
+
+    for (const target of writable) {
+      const value = fields[target.name];
+      // Partial updates only need the fields being changed
+      if (value === undefined && mutation.kind === 'update') {
+        continue;
+      }
+      if (value === undefined && target.defaultValue != null) {
+        continue;
+      }
+      const problem = checkValue(value, target.typeRef, target.name);
+      if (problem) {
+        problems.push(problem);
+      }
+    }
+
+    for (const fieldName of Object.keys(fields)) {
+      if (tableFieldNames.has(fieldName) && !writable.some(target => target.name === fieldName)) {
+        problems.push(`Field "${fieldName}" cannot be written through "${mutation.name}" (computed or read-only field)`);
+      }
+    }
+
+    if (inputArg) {
+      variableDefinitions.push(variableDefinition(inputArg.name, inputArg.typeRef));
+      callArgs.push(variableArgument(inputArg.name, inputArg.name));
+      variables[inputArg.name] = fields;
+    } else {
+      for (const target of writable) {
+        if (fields[target.name] !== undefined) {
+          variableDefinitions.push(variableDefinition(target.name, target.typeRef));
+          callArgs.push(variableArgument(target.name, target.name));
+          variables[target.name] = fields[target.name];
+        }
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw baseqlError(
+      problems.some(problem => problem.startsWith('Unknown field')) ? 'UNKNOWN_FIELD' : 'INVALID_ARGUMENT',
+      `Invalid ${mutation.kind} request for "${mutations.tableName}": ${problems.join('; ')}.`,
+      { hint: 'Use getTableSchema to see available fields and types.' }
+    );
+  }
+
+  const root = fieldNode(mutation.name, {
+    args: callArgs,
+    selectionSet: buildReturnSelection(mutations, mutation),
+  });
+  const query = printOperation('mutation', `${capitalize(mutation.kind)}Record`, variableDefinitions, [root]);
+
+  return { query, variables };
+}
+
+/**
+ * Select the table's scalar fields when the mutation returns the record itself.
+ */
+function buildReturnSelection(mutations: TableMutations, mutation: TableMutation): SelectionSetNode | undefined {
+  const returned = unwrapType(mutation.returnType);
+  if (returned.kind !== 'OBJECT') {
+    return undefined;
+  }
+  if (returned.name !== mutations.tableName) {
+    return selectionSet([fieldNode('__typename')]);
+  }
+
+  const scalarFields = mutations.tableFields
+    .filter(field => field.scalarKind)
+    .map(field => field.name);
+
+  if (scalarFields.length === 0) {
+    scalarFields.push('__typename');
+  }
+
+  return selectionSet(scalarFields.map(name => fieldNode(name)));
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
@@ -0,0 +1,313 @@
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  GraphQLSchema,
+  Kind,
+  OperationDefinitionNode,
+  TypeNode,
+  isEnumType,
+  isInputObjectType,
+  parse,
+  valueFromASTUntyped,
+} from "graphql";
+import { validationErrors } from './query-validation.js';
+
+/**
+ * Named queries are `.graphql` files that start with a commented front-matter header, so the
+ * file stays valid GraphQL for editors and other clients:
+ *
+ *   # ---
+ *   # name: studentsByType
+ *   # description: Contacts of one type, newest first
+ *   # variables:
+ *   #   type: Contact type, e.g. "Student"
+ *   # ---
+ *   query studentsByType($type: String) { ... }
+ */
+export interface NamedQuery {
+  name: string;
+  description?: string;
+  /** Documentation for each variable, keyed by variable name */
+  variables: Record<string, string>;
+  query: string;
+}
+
+export const DEFAULT_QUERIES_DIR = 'queries';
+
+// Named queries become tool names, which MCP limits to letters, digits, _ and -
+const NAMED_QUERY_NAME = /^[A-Za-z][A-Za-z0-9_-]{0,63}$/;
+
+export function isValidQueryName(name: string): boolean {
+  return NAMED_QUERY_NAME.test(name);
+}
+
+/**
+ * The single operation in a document, which a named query must have.
+ */
+export function namedQueryOperation(query: string): OperationDefinitionNode {
+  const operations = parse(query).definitions.filter(
+    (definition): definition is OperationDefinitionNode => definition.kind === Kind.OPERATION_DEFINITION
+  );
+  if (operations.length !== 1) {
+    throw new Error(`a named query must contain exactly one operation, found ${operations.length}`);
+  }
+  return operations[0];
+}
+
+function oneLine(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+export function renderNamedQuery(namedQuery: NamedQuery): string {
+  const lines = ['# ---', `# name: ${namedQuery.name}`];
+  if (namedQuery.description) {
+    lines.push(`# description: ${oneLine(namedQuery.description)}`);
+  }
+  const variables = Object.entries(namedQuery.variables);
+  if (variables.length > 0) {
+    lines.push('# variables:');
+    variables.forEach(([name, doc]) => lines.push(`#   ${name}:${doc ? ` ${oneLine(doc)}` : ''}`));
+  }
+  lines.push('# ---');
+  return `${lines.join('\n')}\n${namedQuery.query.trim()}\n`;
+}
+
+/**
+ * Write a named query to `<dir>/<name>.graphql`. Variables of the operation get an empty doc
+ * line to fill in. Refuses to replace an existing file unless `overwrite` is set.
+ */
+export async function saveNamedQuery(
+  dir: string,
+  namedQuery: Omit<NamedQuery, 'variables'> & { variables?: Record<string, string> },
+  options: { overwrite?: boolean } = {}
+): Promise<string> {
+  if (!isValidQueryName(namedQuery.name)) {
+    throw new Error(`Invalid query name "${namedQuery.name}": use letters, digits, _ and -, starting with a letter`);
+  }
+
+  const operation = namedQueryOperation(namedQuery.query);
+  const variables = Object.fromEntries(
+    (operation.variableDefinitions || []).map(definition => [
+      definition.variable.name.value,
+      namedQuery.variables?.[definition.variable.name.value] ?? '',
+    ])
+  );
+
+  const file = path.join(dir, `${namedQuery.name}.graphql`);
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(file, renderNamedQuery({ ...namedQuery, variables }), { flag: options.overwrite ? 'w' : 'wx' });
+  return file;
+}
+
+/**
+ * A named query loaded from the queries directory, ready to be offered as a tool.
+ */
+export interface NamedQueryTool extends NamedQuery {
+  /** File the query was loaded from */
+  source: string;
+  inputSchema: {
+    type: "object";
+    properties: Record<string, any>;
+    required?: string[];
+  };
+}
+
+const FRONT_MATTER_FENCE = /^#\s*---\s*$/;
+
+// Tool arguments every named query tool already has, so variables cannot use these names
+const RESERVED_ARGUMENTS = ['endpoint', 'format'];
+
+/**
+ * Split a named query file into its front-matter header and the GraphQL document.
+ */
+export function parseNamedQuery(text: string, fileName: string): NamedQuery {
+  const lines = text.split(/\r?\n/);
+  let start = 0;
+  while (start < lines.length && !lines[start].trim()) {
+    start++;
+  }
+
+  const namedQuery: NamedQuery = { name: path.basename(fileName, '.graphql'), variables: {}, query: text.trim() };
+  if (!FRONT_MATTER_FENCE.test(lines[start] ?? '')) {
+    return namedQuery;
+  }
+
+  const end = lines.findIndex((line, i) => i > start && FRONT_MATTER_FENCE.test(line));
+  if (end === -1) {
+    throw new Error('front matter starts with "# ---" but has no closing "# ---" line');
+  }
+
+  let inVariables = false;
+  for (const line of lines.slice(start + 1, end)) {
+    if (!line.startsWith('#')) {
+      throw new Error(`front matter lines must be comments, found "${line}"`);
+    }
+    const content = line.replace(/^#\s?/, '');
+    if (!content.trim()) {
+      continue;
+    }
+    const entry = content.match(/^(\s*)([A-Za-z_][\w-]*)\s*:\s*(.*)$/);
+    if (!entry) {
+      throw new Error(`cannot read front matter line "${content.trim()}"; use "key: value"`);
+    }
+    const [, indent, key, value] = entry;
+
+    if (indent && inVariables) {
+      namedQuery.variables[key.replace(/^\$/, '')] = value.trim();
+    } else if (key === 'name' || key === 'description') {
+      namedQuery[key] = value.trim();
+      inVariables = false;
+    } else if (key === 'variables') {
+      inVariables = true;
+    } else {
+      throw new Error(`unknown front matter key "${key}"; use name, description and variables`);
+    }
+  }
+
+  namedQuery.query = lines.slice(end + 1).join('\n').trim();
+  return namedQuery;
+}
+
+function namedTypeName(type: TypeNode): string {
+  return type.kind === Kind.NAMED_TYPE ? type.name.value : namedTypeName(type.type);
+}
+
+/**
+ * JSON schema for a GraphQL variable type. Enums and input objects are described from the
+ * endpoint's schema when it is available.
+ */
+function variableJsonSchema(type: TypeNode, schema?: GraphQLSchema): Record<string, any> {
+  if (type.kind === Kind.NON_NULL_TYPE) {
+    return variableJsonSchema(type.type, schema);
+  }
+  if (type.kind === Kind.LIST_TYPE) {
+    return { type: "array", items: variableJsonSchema(type.type, schema) };
+  }
+
+  switch (type.name.value) {
+    case 'Int':
+      return { type: "integer" };
+    case 'Float':
+      return { type: "number" };
+    case 'Boolean':
+      return { type: "boolean" };
+    case 'String':
+    case 'ID':
+      return { type: "string" };
+  }
+  const named = schema?.getType(type.name.value);
+  if (named && isEnumType(named)) {
+    return { type: "string", enum: named.getValues().map(value => value.name) };
+  }
+  if (named && isInputObjectType(named)) {
+    return { type: "object" };
+  }
+  return {};
+}
+
+/**
+ * Tool input schema from the operation's variable definitions: non-null variables without a
+ * default are required, and each property carries the variable's doc and GraphQL type.
+ */
+export function namedQueryInputSchema(namedQuery: NamedQuery, schema?: GraphQLSchema): NamedQueryTool['inputSchema'] {
+  const operation = namedQueryOperation(namedQuery.query);
+  const properties: Record<string, any> = {};
+  const required: string[] = [];
+
+  for (const definition of operation.variableDefinitions || []) {
+    const name = definition.variable.name.value;
+    const graphqlType = namedQueryTypeText(definition.type);
+    const doc = namedQuery.variables[name];
+    properties[name] = {
+      ...variableJsonSchema(definition.type, schema),
+      description: doc ? `${doc} (GraphQL type ${graphqlType})` : `GraphQL type ${graphqlType}`,
+      ...(definition.defaultValue ? { default: valueFromASTUntyped(definition.defaultValue) } : {}),
+    };
+    if (definition.type.kind === Kind.NON_NULL_TYPE && !definition.defaultValue) {
+      required.push(name);
+    }
+  }
+
+  return { type: "object", properties, ...(required.length > 0 ? { required } : {}) };
+}
+
+function namedQueryTypeText(type: TypeNode): string {
+  if (type.kind === Kind.NON_NULL_TYPE) {
+    return `${namedQueryTypeText(type.type)}!`;
+  }
+  if (type.kind === Kind.LIST_TYPE) {
+    return `[${namedQueryTypeText(type.type)}]`;
+  }
+  return namedTypeName(type);
+}
+
+/**
+ * Check a named query against the endpoint's schema; returns the problems found, if any.
+ */
+export function validateNamedQuery(namedQuery: NamedQuery, schema: GraphQLSchema): string[] {
+  return validationErrors(parse(namedQuery.query), schema);
+}
+
+/**
+ * Load named queries from `*.graphql` files in a directory. Files that do not parse, use a
+ * taken name or fail validation against `schema` (when given) are reported and skipped, so one
+ * bad file does not take the others down.
+ */
+export async function loadNamedQueryDirectory(
+  dir: string,
+  options: { schema?: GraphQLSchema; reservedNames?: string[] } = {}
+): Promise<{ queries: NamedQueryTool[]; errors: string[] }> {
+  const queries: NamedQueryTool[] = [];
+  const errors: string[] = [];
+
+  let entries: string[];
+  try {
+    entries = (await fs.readdir(dir)).filter(entry => entry.endsWith('.graphql')).sort();
+  } catch (error: any) {
+    return { queries, errors: [`Cannot read queries directory ${dir}: ${error.message}`] };
+  }
+
+  for (const entry of entries) {
+    const file = path.join(dir, entry);
+    try {
+      const namedQuery = parseNamedQuery(await fs.readFile(file, 'utf-8'), entry);
+      if (!isValidQueryName(namedQuery.name)) {
+        throw new Error(`invalid name "${namedQuery.name}": use letters, digits, _ and -, starting with a letter`);
+      }
+      if (options.reservedNames?.includes(namedQuery.name)) {
+        throw new Error(`"${namedQuery.name}" is the name of a built-in tool`);
+      }
+      if (queries.some(existing => existing.name === namedQuery.name)) {
+        throw new Error(`another file already defines a query named "${namedQuery.name}"`);
+      }
+
+      const operation = namedQueryOperation(namedQuery.query);
+      const declared = (operation.variableDefinitions || []).map(definition => definition.variable.name.value);
+      const reserved = declared.filter(name => RESERVED_ARGUMENTS.includes(name));
+      if (reserved.length > 0) {
+        throw new Error(`variable $${reserved[0]} clashes with the tool's own "${reserved[0]}" argument; rename it`);
+      }
+      const unknown = Object.keys(namedQuery.variables).filter(name => !declared.includes(name));
+      if (unknown.length > 0) {
+        throw new Error(`front matter documents variable${unknown.length > 1 ? 's' : ''} ${unknown.join(', ')} that the operation does not declare`);
+      }
+      if (options.schema) {
+        const problems = validateNamedQuery(namedQuery, options.schema);
+        if (problems.length > 0) {
+          throw new Error(`does not match the endpoint's schema: ${problems.join('; ')}`);
+        }
+      }
+
+      queries.push({
+        ...namedQuery,
+        description: namedQuery.description || `Run the named query in ${entry}`,
+        source: file,
+        inputSchema: namedQueryInputSchema(namedQuery, options.schema),
+      });
+    } catch (error: any) {
+      errors.push(`Skipping query file ${file}: ${error.message}`);
+    }
+  }
+
+  return { queries, errors };
+}
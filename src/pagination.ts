@@ -0,0 +1,140 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+
+// BaseQL rejects _page_size values above this
+export const BASEQL_MAX_PAGE_SIZE = 100;
+export const DEFAULT_MAX_RECORDS = 1000;
+// Aggregations and exhaustive option counts return totals, not rows, so they can afford to read far more of a table
+export const DEFAULT_MAX_SCAN_RECORDS = 100000;
+
+/** Fetch one BaseQL page; `page` is 1-based as in `_page`. */
+export type PageFetcher<T> = (page: number, pageSize: number) => Promise<T[]>;
+
+export interface RecordWindow<T> {
+  records: T[];
+  offset: number;
+  limit: number;
+  hasMore: boolean;
+  pagesFetched: number;
+}
+
+interface CursorState {
+  table: string;
+  offset: number;
+}
+
+/**
+ * Pick the smallest page size whose single page covers the whole window, so small
+ * requests do not download a full page. Falls back to the BaseQL maximum.
+ */
+function choosePageSize(offset: number, count: number): number {
+  for (let size = count; size < BASEQL_MAX_PAGE_SIZE; size++) {
+    if (Math.floor(offset / size) === Math.floor((offset + count - 1) / size)) {
+      return size;
+    }
+  }
+  return BASEQL_MAX_PAGE_SIZE;
+}
+
+/**
+ * Fetch exactly the records in [offset, offset + limit) across as many `_page` requests
+ * as needed. One extra record is requested to tell whether more records follow.
+ */
+export async function fetchRecordWindow<T>(
+  fetchPage: PageFetcher<T>,
+  options: { offset: number; limit: number }
+): Promise<RecordWindow<T>> {
+  const { offset, limit } = options;
+  const wanted = limit + 1;
+  const pageSize = choosePageSize(offset, wanted);
+
+  let page = Math.floor(offset / pageSize) + 1;
+  let skip = offset % pageSize;
+  let pagesFetched = 0;
+  const collected: T[] = [];
+
+  while (collected.length < wanted) {
+    const records = await fetchPage(page, pageSize);
+    pagesFetched++;
+
+    collected.push(...records.slice(skip, skip + wanted - collected.length));
+    skip = 0;
+
+    if (records.length < pageSize) {
+      break;
+    }
+    page++;
+  }
+
+  return {
+    records: collected.slice(0, limit),
+    offset,
+    limit,
+    hasMore: collected.length > limit,
+    pagesFetched,
+  };
+}
+
+/**
+ * Encode an opaque continuation cursor for the next window of a table.
+ */
+export function encodeCursor(table: string, offset: number): string {
+  const state: CursorState = { table, offset };
+  return Buffer.from(JSON.stringify(state), 'utf-8').toString('base64url');
+}
+
+/**
+ * Decode a continuation cursor, checking it belongs to the table being queried.
+ */
+export function decodeCursor(cursor: string, table: string): number {
+  let state: Partial<CursorState>;
+  try {
+    state = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+  } catch {
+    throw new McpError(ErrorCode.InvalidRequest, "cursor is not valid. Pass the nextCursor value from a previous response unchanged.");
+  }
+
+  // Valid JSON that is not an object (null, a number, a string) is no cursor either
+  if (!state || typeof state !== 'object' || typeof state.offset !== 'number' || state.offset < 0 || !Number.isInteger(state.offset)) {
+    throw new McpError(ErrorCode.InvalidRequest, "cursor is not valid. Pass the nextCursor value from a previous response unchanged.");
+  }
+
+  if (state.table !== table) {
+    throw new McpError(ErrorCode.InvalidRequest, `cursor belongs to table "${state.table}", not "${table}"`);
+  }
+
+  return state.offset;
+}
+
+export interface RecordScan<T> {
+  records: T[];
+  /** False when the scan stopped at `maxRecords` before reaching the end of the table */
+  complete: boolean;
+  pagesFetched: number;
+}
+
+/**
+ * Page through a whole table (or filtered result), stopping after `maxRecords` records.
+ */
+export async function fetchAllRecords<T>(
+  fetchPage: PageFetcher<T>,
+  options: { maxRecords: number }
+): Promise<RecordScan<T>> {
+  const records: T[] = [];
+  let page = 1;
+  let pagesFetched = 0;
+  let reachedEnd = false;
+
+  while (!reachedEnd && records.length <= options.maxRecords) {
+    const pageRecords = await fetchPage(page, BASEQL_MAX_PAGE_SIZE);
+    pagesFetched++;
+    records.push(...pageRecords);
+    reachedEnd = pageRecords.length < BASEQL_MAX_PAGE_SIZE;
+    page++;
+  }
+
+  return {
+    records: records.slice(0, options.maxRecords),
+    complete: reachedEnd && records.length <= options.maxRecords,
+    pagesFetched,
+  };
+}
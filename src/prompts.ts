@@ -0,0 +1,242 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { SchemaModel, TableInfo, requireTable, typeRefToString } from './schema-cache.js';
+import { PromptFileSchema } from './validators.js';
+
+export interface PromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+/**
+ * A prompt template. `{{name}}` inserts an argument, `{{#name}}...{{/name}}` keeps a section only
+ * when the argument is given, and the context placeholders below expand from the schema.
+ */
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  template: string;
+  /** "built-in" or the file a team prompt was loaded from */
+  source: string;
+}
+
+export interface PromptContext {
+  schema: SchemaModel;
+  endpoint: string;
+  /** Tables the caller may access */
+  tables: TableInfo[];
+}
+
+/**
+ * Placeholders filled from the schema rather than from arguments:
+ * `{{tables}}` lists the tables, `{{tableSchema}}` describes the fields of the `table` argument,
+ * `{{endpoint}}` names the endpoint.
+ */
+export const CONTEXT_PLACEHOLDERS = ['tables', 'tableSchema', 'endpoint'];
+
+const PLACEHOLDER = /\{\{\s*([#/]?)([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+const SECTION = /\{\{\s*#([A-Za-z_][A-Za-z0-9_]*)\s*\}\}([\s\S]*?)\{\{\s*\/\1\s*\}\}/g;
+
+const TABLE_ARGUMENT: PromptArgument = {
+  name: 'table',
+  description: 'Table name (use listTables to see options)',
+  required: true,
+};
+
+export const BUILT_IN_PROMPTS: PromptDefinition[] = [
+  {
+    name: 'explore-base',
+    description: 'Get oriented in a BaseQL base: what each table holds, how tables link and what questions the data can answer',
+    arguments: [],
+    source: 'built-in',
+    template: `Explore the BaseQL endpoint "{{endpoint}}" and explain what data it holds.
+
+Tables:
+{{tables}}
+
+Use getTableSchema on the most important tables, queryTable with small limits to look at real records, and getFieldOptions on status/type fields. Then summarize:
+1. What each table represents and roughly how many records it has
+2. How the tables link to each other
+3. Five useful questions this data can answer, with the tool call you would use for each`,
+  },
+  {
+    name: 'table-report',
+    description: 'Build a summary report on a table: volumes, breakdowns by select fields and notable records',
+    arguments: [
+      TABLE_ARGUMENT,
+      { name: 'focus', description: 'What the report should concentrate on, e.g. "revenue by month"' },
+    ],
+    source: 'built-in',
+    template: `Build a report on the "{{table}}" table.{{#focus}} Focus on: {{focus}}.{{/focus}}
+
+Fields:
+{{tableSchema}}
+
+Use aggregateTable for counts, totals and averages (group by the select and date fields that matter), getFieldOptions to see how values are distributed, and queryTable for a few representative records. Present the key numbers first, then breakdowns as tables, then anything unusual worth following up.`,
+  },
+  {
+    name: 'find-duplicates',
+    description: 'Look for duplicate records in a table by comparing identifying fields',
+    arguments: [
+      TABLE_ARGUMENT,
+      { name: 'fields', description: 'Comma-separated fields to compare, e.g. "email,fullName"; defaults to name and email fields' },
+    ],
+    source: 'built-in',
+    template: `Find likely duplicate records in the "{{table}}" table.
+
+Fields:
+{{tableSchema}}
+
+{{#fields}}Compare records on: {{fields}}. {{/fields}}Use aggregateTable grouped by the identifying fields with a count to find values used more than once, then searchTable or queryTable to pull the records in each group. Treat case and whitespace differences as matches. List each duplicate group with record IDs and the differences between them, and say which record looks like the one to keep. Do not change any records.`,
+  },
+  {
+    name: 'explain-record',
+    description: 'Explain a single record in plain language, following its linked records',
+    arguments: [
+      TABLE_ARGUMENT,
+      { name: 'id', description: 'Record ID, e.g. "rec123xyz"', required: true },
+    ],
+    source: 'built-in',
+    template: `Explain record "{{id}}" from the "{{table}}" table in plain language.
+
+Fields:
+{{tableSchema}}
+
+Read it from the baseql://tables/{{table}}/records/{{id}} resource or with queryTable filtered by id, then follow its linked records (queryTable with field paths such as "owner.fullName") to describe who and what it relates to. Point out empty or unusual values.`,
+  },
+];
+
+function invalidPrompt(message: string): McpError {
+  return new McpError(ErrorCode.InvalidParams, message);
+}
+
+/**
+ * Placeholder names a template uses, sections included.
+ */
+export function templatePlaceholders(template: string): string[] {
+  const names = new Set<string>();
+  for (const match of template.matchAll(PLACEHOLDER)) {
+    names.add(match[2]);
+  }
+  return Array.from(names);
+}
+
+function describeTables(tables: TableInfo[]): string {
+  if (tables.length === 0) {
+    return '(no tables available)';
+  }
+  return tables
+    .map(table => `- ${table.name}${table.description ? `: ${table.description}` : ''} (${table.fields.length} fields)`)
+    .join('\n');
+}
+
+function describeFields(table: TableInfo): string {
+  return table.fields
+    .map(field => {
+      const details = [typeRefToString(field.typeRef)];
+      if (field.linkedTable) {
+        details.push(`links to ${field.linkedTable}`);
+      }
+      if (field.enumValues) {
+        details.push(`options: ${field.enumValues.join(', ')}`);
+      }
+      return `- ${field.name} (${details.join('; ')})`;
+    })
+    .join('\n');
+}
+
+/**
+ * Fill a prompt template from its arguments and the endpoint's schema.
+ */
+export function renderPrompt(prompt: PromptDefinition, args: Record<string, string>, context: PromptContext): string {
+  for (const arg of prompt.arguments) {
+    if (arg.required && !args[arg.name]) {
+      throw invalidPrompt(`Prompt "${prompt.name}" requires the "${arg.name}" argument`);
+    }
+  }
+
+  const values: Record<string, string> = { ...args, endpoint: context.endpoint };
+  const placeholders = templatePlaceholders(prompt.template);
+
+  if (placeholders.includes('tables')) {
+    values.tables = describeTables(context.tables);
+  }
+  if (placeholders.includes('tableSchema')) {
+    if (!args.table) {
+      throw invalidPrompt(`Prompt "${prompt.name}" needs a "table" argument to describe its fields`);
+    }
+    const table = requireTable(context.schema, args.table);
+    if (!context.tables.includes(table)) {
+      throw invalidPrompt(`Access to table "${args.table}" is not allowed on this server`);
+    }
+    values.tableSchema = describeFields(table);
+  }
+
+  return prompt.template
+    .replace(SECTION, (_match, name: string, body: string) => (values[name] ? body : ''))
+    .replace(PLACEHOLDER, (_match, _marker: string, name: string) => values[name] ?? '')
+    .trim();
+}
+
+/**
+ * Load team prompts from `*.json` files in a directory. Invalid files are reported and skipped
+ * so one bad prompt does not take the others down.
+ */
+export async function loadPromptDirectory(dir: string): Promise<{ prompts: PromptDefinition[]; errors: string[] }> {
+  const prompts: PromptDefinition[] = [];
+  const errors: string[] = [];
+
+  let entries: string[];
+  try {
+    entries = (await fs.readdir(dir)).filter(entry => entry.endsWith('.json')).sort();
+  } catch (error: any) {
+    return { prompts, errors: [`Cannot read prompts directory ${dir}: ${error.message}`] };
+  }
+
+  for (const entry of entries) {
+    const file = path.join(dir, entry);
+    try {
+      const parsed = PromptFileSchema.safeParse(JSON.parse(await fs.readFile(file, 'utf-8')));
+      if (!parsed.success) {
+        throw new Error(parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; '));
+      }
+
+      const prompt = parsed.data;
+      const declared = (prompt.arguments || []).map(arg => arg.name);
+      const unknown = templatePlaceholders(prompt.template)
+        .filter(name => !declared.includes(name) && !CONTEXT_PLACEHOLDERS.includes(name));
+      if (unknown.length > 0) {
+        throw new Error(`template uses undeclared argument${unknown.length > 1 ? 's' : ''} ${unknown.join(', ')}`);
+      }
+      if (templatePlaceholders(prompt.template).includes('tableSchema') && !declared.includes('table')) {
+        throw new Error('{{tableSchema}} needs a "table" argument');
+      }
+      if (prompts.some(existing => existing.name === prompt.name)) {
+        throw new Error(`another file already defines a prompt named "${prompt.name}"`);
+      }
+
+      prompts.push({
+        name: prompt.name,
+        description: prompt.description || `Team prompt from ${entry}`,
+        arguments: prompt.arguments || [],
+        template: prompt.template,
+        source: file,
+      });
+    } catch (error: any) {
+      errors.push(`Skipping prompt file ${file}: ${error.message}`);
+    }
+  }
+
+  return { prompts, errors };
+}
+
+/**
+ * Built-in prompts plus team prompts; a team prompt with a built-in's name replaces it.
+ */
+export function mergePrompts(teamPrompts: PromptDefinition[]): PromptDefinition[] {
+  const names = new Set(teamPrompts.map(prompt => prompt.name));
+  return [...BUILT_IN_PROMPTS.filter(prompt => !names.has(prompt.name)), ...teamPrompts];
+}
@@ -0,0 +1,281 @@
+import {
+  ArgumentNode,
+  DocumentNode,
+  FieldNode,
+  Kind,
+  ListTypeNode,
+  NameNode,
+  NamedTypeNode,
+  OperationTypeNode,
+  SelectionSetNode,
+  TypeNode,
+  VariableDefinitionNode,
+  print,
+} from "graphql";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { ArgInfo, FieldInfo, TableInfo, TypeRef } from './schema-cache.js';
+import { unknownFieldError } from './errors.js';
+import { SelectionTree, nestedPageSize } from './selection.js';
+
+export interface SortOption {
+  field: string;
+  direction?: "asc" | "desc";
+}
+
+export interface BuiltQuery {
+  query: string;
+  variables: Record<string, any>;
+}
+
+export interface PageQueryOptions {
+  filter?: Record<string, any>;
+  sort?: SortOption[];
+  page: number;
+  pageSize: number;
+}
+
+const GRAPHQL_NAME = /^[_A-Za-z][_0-9A-Za-z]*$/;
+
+// BaseQL table argument names, and the variables they are passed through
+const TABLE_ARGS = {
+  filter: '_filter',
+  orderBy: '_order_by',
+  pageSize: '_page_size',
+  page: '_page',
+} as const;
+
+/**
+ * Reject anything that is not a valid GraphQL name before it reaches a document.
+ */
+export function assertName(name: unknown, what: string): asserts name is string {
+  if (typeof name !== 'string' || !GRAPHQL_NAME.test(name)) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `Invalid ${what} ${JSON.stringify(name)}: names may only contain letters, digits and underscores and cannot start with a digit`
+    );
+  }
+}
+
+export function nameNode(value: string): NameNode {
+  return { kind: Kind.NAME, value };
+}
+
+/**
+ * Convert an introspected type reference into a GraphQL type node for variable definitions.
+ */
+export function typeNodeFrom(type: TypeRef): TypeNode {
+  if (type.kind === 'NON_NULL' && type.ofType) {
+    return { kind: Kind.NON_NULL_TYPE, type: typeNodeFrom(type.ofType) as NamedTypeNode | ListTypeNode };
+  }
+  if (type.kind === 'LIST' && type.ofType) {
+    return { kind: Kind.LIST_TYPE, type: typeNodeFrom(type.ofType) };
+  }
+  return { kind: Kind.NAMED_TYPE, name: nameNode(type.name || 'String') };
+}
+
+export function variableDefinition(name: string, type: TypeRef): VariableDefinitionNode {
+  return {
+    kind: Kind.VARIABLE_DEFINITION,
+    variable: { kind: Kind.VARIABLE, name: nameNode(name) },
+    type: typeNodeFrom(type),
+  };
+}
+
+export function variableArgument(argName: string, variableName: string): ArgumentNode {
+  return {
+    kind: Kind.ARGUMENT,
+    name: nameNode(argName),
+    value: { kind: Kind.VARIABLE, name: nameNode(variableName) },
+  };
+}
+
+export function fieldNode(name: string, options: { alias?: string; args?: ArgumentNode[]; selectionSet?: SelectionSetNode } = {}): FieldNode {
+  return {
+    kind: Kind.FIELD,
+    alias: options.alias ? nameNode(options.alias) : undefined,
+    name: nameNode(name),
+    arguments: options.args,
+    selectionSet: options.selectionSet,
+  };
+}
+
+export function selectionSet(fields: FieldNode[]): SelectionSetNode {
+  return { kind: Kind.SELECTION_SET, selections: fields };
+}
+
+/**
+ * Build an operation document and print it.
+ */
+export function printOperation(
+  operation: 'query' | 'mutation',
+  name: string,
+  variableDefinitions: VariableDefinitionNode[],
+  fields: FieldNode[]
+): string {
+  const document: DocumentNode = {
+    kind: Kind.DOCUMENT,
+    definitions: [
+      {
+        kind: Kind.OPERATION_DEFINITION,
+        operation: operation === 'query' ? OperationTypeNode.QUERY : OperationTypeNode.MUTATION,
+        name: nameNode(name),
+        variableDefinitions,
+        selectionSet: selectionSet(fields),
+      },
+    ],
+  };
+  return print(document);
+}
+
+// Object fields cannot be selected bare; fall back to the linked records' ids
+function leafField(name: string, field: FieldInfo): FieldNode {
+  if (field.kind === 'OBJECT' || field.kind === 'INTERFACE' || field.kind === 'UNION') {
+    return fieldNode(name, { selectionSet: selectionSet([fieldNode(field.kind === 'UNION' ? '__typename' : 'id')]) });
+  }
+  return fieldNode(name);
+}
+
+/**
+ * Build the selection for a list of field names, validated against the table. Linked-record
+ * fields are expanded to the linked records' `id` so the query stays valid.
+ */
+export function buildFieldSelection(table: TableInfo, fields: string[]): FieldNode[] {
+  return fields.map(name => {
+    assertName(name, 'field name');
+    if (name === '__typename') {
+      return fieldNode(name);
+    }
+
+    const field = table.fields.find(f => f.name === name);
+    if (!field) {
+      throw unknownFieldError(name, table.name, table.fields.map(f => f.name));
+    }
+    return leafField(name, field);
+  });
+}
+
+interface VariableScope {
+  definitions: VariableDefinitionNode[];
+  variables: Record<string, any>;
+}
+
+function addVariable(scope: VariableScope, arg: ArgInfo, baseName: string, value: any): ArgumentNode {
+  let variableName = baseName;
+  for (let i = 2; variableName in scope.variables; i++) {
+    variableName = `${baseName}${i}`;
+  }
+  scope.definitions.push(variableDefinition(variableName, arg.typeRef));
+  scope.variables[variableName] = value;
+  return variableArgument(arg.name, variableName);
+}
+
+/**
+ * Build the selection for a resolved selection tree. Linked fields carry their own `_filter`
+ * and `_page_size` arguments, passed as variables named after the field path.
+ */
+export function buildTreeSelection(tree: SelectionTree, scope: VariableScope, path: string[] = []): FieldNode[] {
+  return Array.from(tree.nodes.values()).map(node => {
+    assertName(node.name, 'field name');
+    if (!node.field) {
+      return fieldNode(node.name);
+    }
+    if (!node.children) {
+      return leafField(node.name, node.field);
+    }
+
+    const fieldPath = [...path, node.name];
+    const args: ArgumentNode[] = [];
+    const findArg = (name: string) => node.field!.args.find(arg => arg.name === name);
+
+    const filterArg = findArg(TABLE_ARGS.filter);
+    if (filterArg && node.filterPlan && Object.keys(node.filterPlan.pushed).length > 0) {
+      args.push(addVariable(scope, filterArg, `${fieldPath.join('_')}_filter`, node.filterPlan.pushed));
+    }
+
+    const pageSizeArg = findArg(TABLE_ARGS.pageSize);
+    const pageSize = nestedPageSize(node);
+    if (pageSizeArg && pageSize !== undefined) {
+      args.push(addVariable(scope, pageSizeArg, `${fieldPath.join('_')}_pageSize`, pageSize));
+    }
+
+    return fieldNode(node.name, {
+      args: args.length > 0 ? args : undefined,
+      selectionSet: selectionSet(buildTreeSelection(node.children, scope, fieldPath)),
+    });
+  });
+}
+
+function requireTableArg(table: TableInfo, argName: string): ArgInfo {
+  const arg = table.queryArgs.find(a => a.name === argName);
+  if (!arg) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `Table "${table.name}" does not accept the ${argName} argument in this BaseQL schema`
+    );
+  }
+  return arg;
+}
+
+/**
+ * Check sort options against the table and convert them to BaseQL's `_order_by` value.
+ */
+export function buildOrderBy(table: TableInfo, sort: SortOption[]): Record<string, string> {
+  const orderBy: Record<string, string> = {};
+
+  for (const item of sort) {
+    assertName(item?.field, 'sort field');
+    if (!table.fields.some(f => f.name === item.field)) {
+      throw unknownFieldError(item.field, table.name, table.fields.map(f => f.name), `Cannot sort by "${item.field}": field not found`);
+    }
+    // BaseQL uses _order_by format with lowercase direction
+    orderBy[item.field] = item.direction || "asc";
+  }
+
+  return orderBy;
+}
+
+/**
+ * Build the query for one page of a table. Table and field names are checked against the
+ * cached schema and every argument value travels as a variable, so user input can never
+ * change the shape of the document.
+ */
+export function buildPageQuery(table: TableInfo, fields: string[] | SelectionTree, options: PageQueryOptions): BuiltQuery {
+  if (!table.queryField) {
+    throw new McpError(ErrorCode.InvalidRequest, `Table "${table.name}" cannot be queried directly in this BaseQL schema`);
+  }
+
+  const variableDefinitions: VariableDefinitionNode[] = [];
+  const args: ArgumentNode[] = [];
+  const variables: Record<string, any> = {};
+  const scope: VariableScope = { definitions: variableDefinitions, variables };
+
+  const addArg = (argName: string, variableName: string, value: any) => {
+    const arg = requireTableArg(table, argName);
+    variableDefinitions.push(variableDefinition(variableName, arg.typeRef));
+    args.push(variableArgument(argName, variableName));
+    variables[variableName] = value;
+  };
+
+  if (options.filter && Object.keys(options.filter).length > 0) {
+    addArg(TABLE_ARGS.filter, 'filter', options.filter);
+  }
+
+  if (options.sort && options.sort.length > 0) {
+    addArg(TABLE_ARGS.orderBy, 'orderBy', buildOrderBy(table, options.sort));
+  }
+
+  addArg(TABLE_ARGS.pageSize, 'pageSize', options.pageSize);
+  addArg(TABLE_ARGS.page, 'page', options.page);
+
+  // Alias the root field to the table name so results are always keyed by table
+  const root = fieldNode(table.queryField, {
+    alias: table.queryField !== table.name ? table.name : undefined,
+    args,
+    selectionSet: selectionSet(Array.isArray(fields) ? buildFieldSelection(table, fields) : buildTreeSelection(fields, scope)),
+  });
+
+  return {
+    query: printOperation('query', 'QueryTable', variableDefinitions, [root]),
+    variables,
+  };
+}
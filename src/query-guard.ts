@@ -0,0 +1,359 @@
+import {
+  DocumentNode,
+  FieldNode,
+  FragmentDefinitionNode,
+  GraphQLError,
+  IntrospectionQuery,
+  IntrospectionType,
+  IntrospectionTypeRef,
+  Kind,
+  OperationDefinitionNode,
+  SelectionSetNode,
+  parse,
+} from "graphql";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { baseqlError } from "./errors.js";
+import { SchemaModel, TableInfo, TypeRef, unwrapType } from "./schema-cache.js";
+
+export interface AccessPolicy {
+  allowWrites: boolean;
+  allowedTables?: string[];
+  deniedTables?: string[];
+}
+
+// Prefixes BaseQL-style mutations put in front of the table they change (insert_contacts, updateContact, ...)
+const MUTATION_PREFIX = /^(create|insert|add|update|edit|upsert|delete|remove|destroy)_?/i;
+
+// Table names in the allow/deny lists match exactly, ignoring case only: a guessed singular
+// would let "status" match "statu" but not "statuses"
+function matchesTable(tableName: string, list: string[]): boolean {
+  const normalized = tableName.toLowerCase();
+  return list.some(entry => entry.toLowerCase() === normalized);
+}
+
+// Regular English plurals of a name: contact → contacts, address → addresses, category → categories
+function pluralForms(name: string): string[] {
+  return [`${name}s`, `${name}es`, ...(name.endsWith('y') ? [`${name.slice(0, -1)}ies`] : [])];
+}
+
+/**
+ * The schema table a name refers to: the table itself, or the table whose name is a plural of it
+ * (`createContact` changes `contacts`). Only tables that exist are considered, so an unrelated
+ * name never matches by accident.
+ */
+function tableNamed(schema: SchemaModel, name: string): TableInfo | undefined {
+  const wanted = name.toLowerCase();
+  const tables = Array.from(schema.tables.values());
+  return schema.tables.get(name)
+    ?? tables.find(table => table.name.toLowerCase() === wanted)
+    ?? tables.find(table => pluralForms(wanted).includes(table.name.toLowerCase()));
+}
+
+/**
+ * Parse a comma-separated table list from a CLI flag or environment variable.
+ */
+export function parseTableList(value?: string): string[] | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const tables = value.split(',').map(table => table.trim()).filter(Boolean);
+  return tables.length > 0 ? tables : undefined;
+}
+
+/**
+ * Narrow the server-wide policy with one endpoint's settings. The server's settings are a ceiling:
+ * an endpoint can deny more tables, allow fewer and turn writes off, never the reverse.
+ */
+export function restrictPolicy(base: AccessPolicy, endpoint: Partial<AccessPolicy>): AccessPolicy {
+  const deniedTables = [...(base.deniedTables ?? []), ...(endpoint.deniedTables ?? [])];
+  const allowedTables = base.allowedTables && endpoint.allowedTables
+    ? endpoint.allowedTables.filter(table => matchesTable(table, base.allowedTables!))
+    : endpoint.allowedTables ?? base.allowedTables;
+  return {
+    allowWrites: base.allowWrites && (endpoint.allowWrites ?? true),
+    allowedTables,
+    deniedTables: deniedTables.length > 0 ? deniedTables : undefined,
+  };
+}
+
+/**
+ * Reject access to a table excluded by the allow/deny lists.
+ */
+export function assertTableAccess(tableName: string, policy: AccessPolicy): void {
+  if (policy.deniedTables && matchesTable(tableName, policy.deniedTables)) {
+    throw baseqlError('ACCESS_DENIED', `Access to table "${tableName}" is denied by server configuration`);
+  }
+  if (policy.allowedTables && !matchesTable(tableName, policy.allowedTables)) {
+    throw baseqlError('ACCESS_DENIED', `Access to table "${tableName}" is not allowed. Allowed tables: ${policy.allowedTables.join(', ')}`);
+  }
+}
+
+/**
+ * Whether the allow/deny lists let a table through, for filtering table listings.
+ */
+export function isTableAllowed(tableName: string, policy: AccessPolicy): boolean {
+  if (policy.deniedTables && matchesTable(tableName, policy.deniedTables)) {
+    return false;
+  }
+  return !policy.allowedTables || matchesTable(tableName, policy.allowedTables);
+}
+
+/**
+ * Names of a table's fields, leaving out links into tables the allow/deny lists exclude, for
+ * selections that default to every field.
+ */
+export function allowedFieldNames(table: TableInfo, policy: AccessPolicy): string[] {
+  return table.fields
+    .filter(field => !field.linkedTable || isTableAllowed(field.linkedTable, policy))
+    .map(field => field.name);
+}
+
+/**
+ * Reject write operations while the server is in read-only mode.
+ */
+export function assertWritesAllowed(policy: AccessPolicy): void {
+  if (!policy.allowWrites) {
+    throw baseqlError('WRITES_DISABLED', "Writes are disabled: the server is running in read-only mode.", {
+      hint: "Start it with --allow-writes (or BASEQL_ALLOW_WRITES=true) to enable mutations.",
+    });
+  }
+}
+
+/**
+ * Collect the root fields of an operation, following fragments used at the root level.
+ */
+function collectRootFields(
+  selectionSet: SelectionSetNode,
+  fragments: Map<string, FragmentDefinitionNode>,
+  seen = new Set<string>()
+): FieldNode[] {
+  const fields: FieldNode[] = [];
+
+  for (const selection of selectionSet.selections) {
+    if (selection.kind === Kind.FIELD) {
+      fields.push(selection);
+    } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+      fields.push(...collectRootFields(selection.selectionSet, fragments, seen));
+    } else if (selection.kind === Kind.FRAGMENT_SPREAD) {
+      const name = selection.name.value;
+      const fragment = fragments.get(name);
+      if (fragment && !seen.has(name)) {
+        seen.add(name);
+        fields.push(...collectRootFields(fragment.selectionSet, fragments, seen));
+      }
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Check every linked table a selection reaches, at any depth: `{ contacts { purchases { id } } }`
+ * reads the purchases table through the link, so it needs the same access as querying it.
+ */
+function assertNestedAccess(
+  selectionSet: SelectionSetNode,
+  table: TableInfo,
+  schema: SchemaModel,
+  fragments: Map<string, FragmentDefinitionNode>,
+  policy: AccessPolicy,
+  seen = new Set<string>()
+): void {
+  for (const selection of selectionSet.selections) {
+    if (selection.kind === Kind.FIELD) {
+      const field = table.fields.find(candidate => candidate.name === selection.name.value);
+      const linked = field?.linkedTable ? schema.tables.get(field.linkedTable) : undefined;
+      if (field?.linkedTable) {
+        assertTableAccess(field.linkedTable, policy);
+      }
+      if (linked && selection.selectionSet) {
+        assertNestedAccess(selection.selectionSet, linked, schema, fragments, policy, seen);
+      }
+    } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+      assertNestedAccess(selection.selectionSet, table, schema, fragments, policy, seen);
+    } else if (selection.kind === Kind.FRAGMENT_SPREAD) {
+      const name = selection.name.value;
+      const fragment = fragments.get(name);
+      // A fragment is checked once per table it is spread into
+      if (fragment && !seen.has(`${table.name}:${name}`)) {
+        seen.add(`${table.name}:${name}`);
+        assertNestedAccess(fragment.selectionSet, table, schema, fragments, policy, seen);
+      }
+    }
+  }
+}
+
+/**
+ * Root fields of an operation with the table each one returns, following root-level fragments.
+ */
+function rootTables(
+  operation: OperationDefinitionNode,
+  schema: SchemaModel,
+  fragments: Map<string, FragmentDefinitionNode>,
+  selectionSet = operation.selectionSet,
+  seen = new Set<string>()
+): Array<{ selectionSet?: SelectionSetNode; table: TableInfo }> {
+  const found: Array<{ selectionSet?: SelectionSetNode; table: TableInfo }> = [];
+  for (const selection of selectionSet.selections) {
+    if (selection.kind === Kind.FIELD) {
+      const name = selection.name.value;
+      let table: TableInfo | undefined;
+      if (name.startsWith('__')) {
+        continue;
+      }
+      if (operation.operation === 'mutation') {
+        // A mutation that returns no record is matched to its table by name (delete_payroll)
+        const returnType = schema.mutations.find(mutation => mutation.name === name)?.returnType;
+        table = (returnType ? schema.tables.get(unwrapType(returnType).name ?? '') : undefined)
+          ?? tableNamed(schema, name.replace(MUTATION_PREFIX, ''));
+      } else {
+        table = Array.from(schema.tables.values()).find(candidate => candidate.queryField === name) ?? tableNamed(schema, name);
+      }
+      if (table) {
+        found.push({ selectionSet: selection.selectionSet, table });
+      }
+    } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+      found.push(...rootTables(operation, schema, fragments, selection.selectionSet, seen));
+    } else if (selection.kind === Kind.FRAGMENT_SPREAD) {
+      const fragment = fragments.get(selection.name.value);
+      if (fragment && !seen.has(selection.name.value)) {
+        seen.add(selection.name.value);
+        found.push(...rootTables(operation, schema, fragments, fragment.selectionSet, seen));
+      }
+    }
+  }
+  return found;
+}
+
+/**
+ * Introspection would describe excluded tables, so while allow/deny lists are set `__type` must
+ * name a permitted type and the full `__schema` is refused (the redacted schema resource has it).
+ */
+function assertIntrospectionAllowed(field: FieldNode, schema: SchemaModel, policy: AccessPolicy, variables?: Record<string, unknown>): void {
+  if (field.name.value === '__schema') {
+    throw baseqlError('ACCESS_DENIED', 'Schema introspection is not available while table allow/deny lists are set.', {
+      hint: 'Read the baseql://schema resource, which leaves out excluded tables, or use getTableSchema.',
+    });
+  }
+  if (field.name.value !== '__type') {
+    return;
+  }
+  const argument = field.arguments?.find(candidate => candidate.name.value === 'name')?.value;
+  const typeName = argument?.kind === Kind.STRING
+    ? argument.value
+    : argument?.kind === Kind.VARIABLE ? variables?.[argument.name.value] : undefined;
+  if (typeof typeName !== 'string') {
+    throw baseqlError('INVALID_ARGUMENT', '__type needs its name as a string or a string variable.');
+  }
+  if (schema.tables.has(typeName)) {
+    assertTableAccess(typeName, policy);
+  }
+}
+
+/**
+ * Parse a raw GraphQL document and check it against the access policy before it is sent:
+ * mutations need writes enabled, subscriptions are never allowed, and every table the query
+ * reaches, as a root field, through linked records or by introspection, must be permitted.
+ * Tables are found through `schema`; with allow/deny lists set and no schema the query is
+ * refused rather than half checked. `variables` supply a `__type` name passed as a variable.
+ * Returns the parsed document.
+ */
+export function assertQueryAllowed(
+  query: string,
+  policy: AccessPolicy,
+  schema?: SchemaModel | null,
+  variables?: Record<string, unknown>
+): DocumentNode {
+  let document: DocumentNode;
+  try {
+    document = parse(query);
+  } catch (error) {
+    const message = error instanceof GraphQLError ? error.message : String(error);
+    throw baseqlError('GRAPHQL_ERROR', `Invalid GraphQL query: ${message}`);
+  }
+
+  const fragments = new Map<string, FragmentDefinitionNode>();
+  const operations: OperationDefinitionNode[] = [];
+
+  for (const definition of document.definitions) {
+    if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+      fragments.set(definition.name.value, definition);
+    } else if (definition.kind === Kind.OPERATION_DEFINITION) {
+      operations.push(definition);
+    }
+  }
+
+  for (const operation of operations) {
+    if (operation.operation === 'subscription') {
+      throw new McpError(ErrorCode.InvalidRequest, "Subscriptions are not supported by BaseQL");
+    }
+
+    if (operation.operation === 'mutation') {
+      assertWritesAllowed(policy);
+    }
+
+    if (!policy.allowedTables && !policy.deniedTables) {
+      continue;
+    }
+
+    if (!schema) {
+      throw baseqlError('UNAVAILABLE', "Cannot check the query's tables against the table allow/deny lists: the schema could not be loaded.", {
+        hint: 'Try again once BaseQL is reachable, or use queryTable.',
+      });
+    }
+    for (const field of collectRootFields(operation.selectionSet, fragments)) {
+      assertIntrospectionAllowed(field, schema, policy, variables);
+    }
+    for (const { selectionSet, table } of rootTables(operation, schema, fragments)) {
+      assertTableAccess(table.name, policy);
+      if (selectionSet) {
+        assertNestedAccess(selectionSet, table, schema, fragments, policy);
+      }
+    }
+  }
+
+  return document;
+}
+
+/**
+ * Names of the tables a parsed document reads or writes as root fields.
+ */
+export function queryTables(document: DocumentNode, schema: SchemaModel): string[] {
+  const fragments = new Map<string, FragmentDefinitionNode>();
+  for (const definition of document.definitions) {
+    if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+      fragments.set(definition.name.value, definition);
+    }
+  }
+
+  const tables = new Set<string>();
+  for (const definition of document.definitions) {
+    if (definition.kind === Kind.OPERATION_DEFINITION) {
+      rootTables(definition, schema, fragments).forEach(({ table }) => tables.add(table.name));
+    }
+  }
+  return Array.from(tables);
+}
+
+/**
+ * The introspection result without the tables the allow/deny lists exclude: their types, the
+ * root query and mutation fields returning them, and fields of other types linking to them.
+ */
+export function redactIntrospection(introspection: IntrospectionQuery, schema: SchemaModel, policy: AccessPolicy): IntrospectionQuery {
+  if (!policy.allowedTables && !policy.deniedTables) {
+    return introspection;
+  }
+  const hidden = new Set(Array.from(schema.tables.keys()).filter(name => !isTableAllowed(name, policy)));
+  const namedType = (type: IntrospectionTypeRef): string | undefined => unwrapType(type as TypeRef).name ?? undefined;
+
+  const types = introspection.__schema.types
+    .filter(type => !hidden.has(type.name))
+    .map((type): IntrospectionType => {
+      if (type.kind !== 'OBJECT') {
+        return type;
+      }
+      return { ...type, fields: type.fields.filter(field => !hidden.has(namedType(field.type) ?? '')) };
+    });
+
+  return { __schema: { ...introspection.__schema, types } };
+}
@@ -0,0 +1,141 @@
+import {
+  ArgumentNode,
+  ASTNode,
+  DocumentNode,
+  GraphQLError,
+  GraphQLSchema,
+  Kind,
+  TypeInfo,
+  ValueNode,
+  getLocation,
+  getNamedType,
+  isInputObjectType,
+  isObjectType,
+  validate,
+  visit,
+  visitWithTypeInfo,
+} from "graphql";
+
+/**
+ * One rewrite made by autofix, with where it was in the original document.
+ */
+export interface QueryFix {
+  rule: 'int-to-float' | 'limit-to-page-size' | 'lowercase-sort-direction';
+  from: string;
+  to: string;
+  line?: number;
+  column?: number;
+}
+
+const SORT_DIRECTION = /^(asc|desc)$/i;
+
+function describeGraphQLError(error: GraphQLError): string {
+  const location = error.locations?.[0];
+  return location ? `${error.message} (line ${location.line}, column ${location.column})` : error.message;
+}
+
+/**
+ * Check a document against the endpoint's schema. Every problem is returned, not just the
+ * first, each with its line and column.
+ */
+export function validationErrors(document: DocumentNode, schema: GraphQLSchema): string[] {
+  return validate(schema, document).map(describeGraphQLError);
+}
+
+// BaseQL schemas type numbers as Float; only rewrite Int when the schema never accepts one
+function schemaAcceptsInt(schema: GraphQLSchema): boolean {
+  return Object.values(schema.getTypeMap()).some(type => {
+    if (type.name.startsWith('__')) {
+      return false;
+    }
+    if (isObjectType(type)) {
+      return Object.values(type.getFields()).some(field => field.args.some(arg => getNamedType(arg.type).name === 'Int'));
+    }
+    if (isInputObjectType(type)) {
+      return Object.values(type.getFields()).some(field => getNamedType(field.type).name === 'Int');
+    }
+    return false;
+  });
+}
+
+function position(node: ASTNode): Pick<QueryFix, 'line' | 'column'> {
+  return node.loc ? getLocation(node.loc.source, node.loc.start) : {};
+}
+
+/**
+ * Lowercase sort directions anywhere in an _order_by value: {lastName: ASC} becomes {lastName: "asc"}.
+ */
+function lowercaseSortDirections(value: ValueNode, fixes: QueryFix[]): ValueNode {
+  if ((value.kind === Kind.STRING || value.kind === Kind.ENUM) && SORT_DIRECTION.test(value.value) && (value.kind === Kind.ENUM || value.value !== value.value.toLowerCase())) {
+    const to = value.value.toLowerCase();
+    fixes.push({
+      rule: 'lowercase-sort-direction',
+      from: value.kind === Kind.ENUM ? value.value : JSON.stringify(value.value),
+      to: JSON.stringify(to),
+      ...position(value),
+    });
+    return { kind: Kind.STRING, value: to, loc: value.loc };
+  }
+  if (value.kind === Kind.OBJECT) {
+    return { ...value, fields: value.fields.map(field => ({ ...field, value: lowercaseSortDirections(field.value, fixes) })) };
+  }
+  if (value.kind === Kind.LIST) {
+    return { ...value, values: value.values.map(item => lowercaseSortDirections(item, fixes)) };
+  }
+  return value;
+}
+
+/**
+ * Rewrite the mistakes clients most often make with BaseQL: Int variables (BaseQL numbers are
+ * Float), `limit` where BaseQL expects `_page_size`, and uppercase `_order_by` directions.
+ * Returns the rewritten document and what was changed; the document is unchanged when nothing
+ * matched.
+ */
+export function autofixDocument(document: DocumentNode, schema: GraphQLSchema): { document: DocumentNode; fixes: QueryFix[] } {
+  const fixes: QueryFix[] = [];
+  const rewriteInt = !schemaAcceptsInt(schema);
+  const typeInfo = new TypeInfo(schema);
+
+  const fixed = visit(document, visitWithTypeInfo(typeInfo, {
+    VariableDefinition(node) {
+      if (!rewriteInt) {
+        return undefined;
+      }
+      const before = fixes.length;
+      const rewritten = visit(node, {
+        NamedType(type) {
+          if (type.name.value !== 'Int') {
+            return undefined;
+          }
+          fixes.push({ rule: 'int-to-float', from: `$${node.variable.name.value}: Int`, to: `$${node.variable.name.value}: Float`, ...position(type) });
+          return { ...type, name: { ...type.name, value: 'Float' } };
+        },
+      });
+      return fixes.length > before ? rewritten : undefined;
+    },
+
+    Argument(node): ArgumentNode | undefined {
+      const argumentNames = typeInfo.getFieldDef()?.args.map(arg => arg.name) ?? [];
+
+      if (node.name.value === 'limit' && !argumentNames.includes('limit') && argumentNames.includes('_page_size')) {
+        fixes.push({ rule: 'limit-to-page-size', from: 'limit', to: '_page_size', ...position(node) });
+        return { ...node, name: { ...node.name, value: '_page_size' } };
+      }
+      if (node.name.value === '_order_by') {
+        const before = fixes.length;
+        const value = lowercaseSortDirections(node.value, fixes);
+        return fixes.length > before ? { ...node, value } : undefined;
+      }
+      return undefined;
+    },
+  }));
+
+  return { document: fixes.length > 0 ? fixed : document, fixes };
+}
+
+/**
+ * A fix as text for messages, e.g. `limit → _page_size (line 1, column 12)`.
+ */
+export function describeFix(fix: QueryFix): string {
+  return `${fix.from} → ${fix.to}${fix.line ? ` (line ${fix.line}, column ${fix.column})` : ''}`;
+}
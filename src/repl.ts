@@ -0,0 +1,627 @@
+import readline from 'readline';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import chalk from 'chalk';
+import { BaseQLMCPServer } from './server.js';
+import { ScalarKind, SchemaModel } from './schema-cache.js';
+import { CREDENTIAL_SERVICE } from './credentials.js';
+import { EXPORT_FORMATS } from './export.js';
+import { saveNamedQuery } from './named-queries.js';
+import { PRINT_FORMATS, errorMessage, printResult, queryResultLists } from './terminal-output.js';
+
+export const DEFAULT_HISTORY_FILE = path.join(os.homedir(), '.config', CREDENTIAL_SERVICE, 'repl_history');
+const HISTORY_SIZE = 1000;
+
+export interface ReplOptions {
+  /** Endpoint to start on (default: the default endpoint) */
+  endpoint?: string;
+  /** Where `save` writes named queries */
+  queriesDir: string;
+  historyFile: string;
+  output: string;
+}
+
+/** Positional arguments a command takes, for completion */
+type ArgKind = 'table' | 'field' | 'endpoint' | 'output';
+
+interface ReplCommand {
+  usage: string;
+  description: string;
+  args: ArgKind[];
+  /** Whether the rest of the line is field conditions or assignments (field=value) */
+  conditions?: boolean;
+  /** Options the command accepts, e.g. --limit */
+  options?: string[];
+}
+
+const COMMANDS: Record<string, ReplCommand> = {
+  tables: { usage: 'tables', description: 'List tables (listTables)', args: [] },
+  schema: { usage: 'schema <table>', description: 'Show the fields of a table (getTableSchema)', args: ['table'] },
+  find: {
+    usage: 'find <table> [field=value ...] [--fields a,b] [--sort field:desc] [--limit n] [--offset n]',
+    description: 'Query records (queryTable); conditions use = != > >= < <= and ~ (contains)',
+    args: ['table'],
+    conditions: true,
+    options: ['--fields', '--sort', '--limit', '--offset'],
+  },
+  search: {
+    usage: 'search <table> <term ...> [--fields a,b] [--limit n]',
+    description: 'Search text fields (searchTable)',
+    args: ['table'],
+    options: ['--fields', '--limit'],
+  },
+  options: {
+    usage: 'options <table> <field> [field=value ...]',
+    description: 'Values used in a field, with counts (getFieldOptions)',
+    args: ['table', 'field'],
+    conditions: true,
+  },
+  count: {
+    usage: 'count <table> [by field,field] [field=value ...]',
+    description: 'Count records, optionally grouped (aggregateTable)',
+    args: ['table'],
+    conditions: true,
+  },
+  export: {
+    usage: `export <table> [field=value ...] [--fields a,b] [--sort field:asc] [--format ${EXPORT_FORMATS.join('|')}] [--file name] [--limit n]`,
+    description: 'Export matching records to a file (exportTable)',
+    args: ['table'],
+    conditions: true,
+    options: ['--fields', '--sort', '--format', '--file', '--limit'],
+  },
+  create: { usage: 'create <table> field=value ...', description: 'Create a record (createRecord)', args: ['table'], conditions: true },
+  update: { usage: 'update <table> <id> field=value ...', description: 'Update a record (updateRecord)', args: ['table'], conditions: true },
+  delete: { usage: 'delete <table> <id>', description: 'Delete a record (deleteRecord)', args: ['table'] },
+  refresh: { usage: 'refresh', description: 'Reload the schema (refreshSchema)', args: [] },
+  'clear-cache': { usage: 'clear-cache', description: 'Drop cached results (clearCache)', args: [] },
+  vars: { usage: 'vars [json|clear]', description: 'Show or set the variables used by GraphQL queries', args: [] },
+  save: { usage: 'save <name> [description]', description: 'Save the last GraphQL query as a named query', args: [] },
+  output: { usage: `output [${PRINT_FORMATS.join('|')}]`, description: 'Show or set how results are printed', args: ['output'] },
+  use: { usage: 'use <endpoint>', description: 'Switch to another endpoint', args: ['endpoint'] },
+  help: { usage: 'help', description: 'Show this help', args: [] },
+  exit: { usage: 'exit', description: 'Leave the REPL (or Ctrl-D)', args: [] },
+};
+
+const CONDITION = /^([A-Za-z_][\w.]*)(!=|>=|<=|=|>|<|~)(.*)$/;
+
+const OPERATORS: Record<string, string> = { '!=': 'ne', '>': 'gt', '>=': 'gte', '<': 'lt', '<=': 'lte', '~': 'contains' };
+
+/**
+ * Split a command line on whitespace, keeping quoted text together: name="Ada Lovelace".
+ */
+export function tokenize(line: string): string[] {
+  const tokens: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  let inToken = false;
+
+  for (const char of line) {
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else {
+        current += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      inToken = true;
+    } else if (/\s/.test(char)) {
+      if (inToken) {
+        tokens.push(current);
+        current = '';
+        inToken = false;
+      }
+    } else {
+      current += char;
+      inToken = true;
+    }
+  }
+  if (inToken) {
+    tokens.push(current);
+  }
+  return tokens;
+}
+
+/** Scalar kind of a field by name (dotted for linked records), when the schema knows it. */
+type FieldKind = (field: string) => ScalarKind | undefined;
+
+// Only the schema decides: zip=02139 must stay "02139" on a text field
+function parseValue(text: string, kind?: ScalarKind): unknown {
+  if (kind === 'boolean' && (text === 'true' || text === 'false')) {
+    return text === 'true';
+  }
+  if (kind === 'number' && text !== '' && !Number.isNaN(Number(text))) {
+    return Number(text);
+  }
+  return text;
+}
+
+/**
+ * Look up a field's scalar kind in a table, following dotted names through linked tables.
+ */
+function scalarKindAt(schema: SchemaModel | null, table: string | undefined, field: string): ScalarKind | undefined {
+  let info = table ? schema?.tables.get(table) : undefined;
+  const parts = field.split('.');
+  for (const [i, part] of parts.entries()) {
+    const fieldInfo = info?.fields.find(candidate => candidate.name === part);
+    if (!fieldInfo || i === parts.length - 1) {
+      return fieldInfo?.scalarKind;
+    }
+    info = fieldInfo.linkedTable ? schema?.tables.get(fieldInfo.linkedTable) : undefined;
+  }
+  return undefined;
+}
+
+interface ParsedArgs {
+  positional: string[];
+  options: Record<string, string>;
+  conditions: Array<{ field: string; operator: string; value: string }>;
+}
+
+function parseArgs(tokens: string[], allowConditions: boolean): ParsedArgs {
+  const parsed: ParsedArgs = { positional: [], options: {}, conditions: [] };
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const condition = allowConditions ? token.match(CONDITION) : null;
+    if (token.startsWith('--')) {
+      const [name, inline] = token.slice(2).split(/=(.*)/s);
+      parsed.options[name] = inline ?? tokens[++i] ?? '';
+    } else if (condition) {
+      parsed.conditions.push({ field: condition[1], operator: condition[2], value: condition[3] });
+    } else {
+      parsed.positional.push(token);
+    }
+  }
+  return parsed;
+}
+
+/**
+ * Turn field conditions into a queryTable filter. An empty value checks for empty fields, and
+ * values become numbers or booleans only for fields of that type.
+ */
+export function conditionsToFilter(conditions: ParsedArgs['conditions'], kindOf: FieldKind = () => undefined): Record<string, any> | undefined {
+  if (conditions.length === 0) {
+    return undefined;
+  }
+  const clauses = conditions.map(({ field, operator, value }) => {
+    if (value === '' && (operator === '=' || operator === '!=')) {
+      return { [field]: { isEmpty: operator === '=' } };
+    }
+    const parsed = parseValue(value, kindOf(field));
+    return { [field]: operator === '=' ? parsed : { [OPERATORS[operator]]: parsed } };
+  });
+  return clauses.length === 1 ? clauses[0] : { and: clauses };
+}
+
+function assignments(conditions: ParsedArgs['conditions'], kindOf: FieldKind): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  for (const { field, operator, value } of conditions) {
+    if (operator !== '=') {
+      throw new Error(`Use field=value to set fields, not "${field}${operator}${value}"`);
+    }
+    fields[field] = parseValue(value, kindOf(field));
+  }
+  return fields;
+}
+
+function parseSort(value: string | undefined): Array<{ field: string; direction?: string }> | undefined {
+  if (!value) {
+    return undefined;
+  }
+  return value.split(',').map(item => item.trim()).filter(Boolean).map(item => {
+    const [field, direction] = item.split(':');
+    return { field, direction: direction || undefined };
+  });
+}
+
+function parseList(value: string | undefined): string[] | undefined {
+  return value ? value.split(',').map(item => item.trim()).filter(Boolean) : undefined;
+}
+
+function parseCount(value: string | undefined, what: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) {
+    throw new Error(`--${what} must be a whole number`);
+  }
+  return count;
+}
+
+function isGraphQL(line: string): boolean {
+  return /^\s*(\{|query\b|mutation\b|fragment\b)/.test(line);
+}
+
+// Unbalanced braces mean the query continues on the next line
+function braceDepth(text: string): number {
+  let depth = 0;
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"' && text[i - 1] !== '\\') {
+      inString = !inString;
+    } else if (!inString && char === '{') {
+      depth++;
+    } else if (!inString && char === '}') {
+      depth--;
+    }
+  }
+  return depth;
+}
+
+function printHelp(): void {
+  console.log(chalk.bold('Commands:'));
+  const width = Math.max(...Object.values(COMMANDS).map(command => command.usage.split(' [')[0].length));
+  for (const command of Object.values(COMMANDS)) {
+    console.log(`  ${chalk.cyan(command.usage.split(' [')[0].padEnd(width))}  ${command.description}`);
+  }
+  console.log();
+  console.log(`Type a GraphQL query (starting with "{" or "query") to run it; it may span several lines.`);
+  console.log(`Run "help <command>" for a command's full usage.`);
+}
+
+/**
+ * Interactive shell over the server's tools, with completion of table and field names from
+ * the introspected schema and persistent history.
+ */
+export async function startRepl(server: BaseQLMCPServer, options: ReplOptions): Promise<void> {
+  const endpoints = await server.endpointNames();
+  if (options.endpoint && !endpoints.includes(options.endpoint)) {
+    throw new Error(`Unknown endpoint "${options.endpoint}". Available: ${endpoints.join(', ')}`);
+  }
+  let endpoint = options.endpoint ?? endpoints[0];
+  let output = options.output;
+  let variables: Record<string, unknown> | undefined;
+  let lastQuery: string | undefined;
+  let pending = '';
+  let schema: SchemaModel | null = null;
+
+  const loadSchema = async () => {
+    schema = await server.getSchema(endpoint);
+    return schema;
+  };
+  await loadSchema();
+
+  const run = async (tool: string, args: Record<string, unknown>) => {
+    const [content] = await server.runTool(tool, { endpoint, format: 'json', ...args });
+    return JSON.parse(content.text);
+  };
+
+  const tableNames = () => (schema ? Array.from(schema.tables.keys()) : []);
+  const fieldNames = (table?: string) => {
+    if (!schema) {
+      return [];
+    }
+    const tables = table && schema.tables.has(table) ? [schema.tables.get(table)!] : Array.from(schema.tables.values());
+    return Array.from(new Set(tables.flatMap(info => info.fields.map(field => field.name))));
+  };
+
+  const complete = (line: string): [string[], string] => {
+    const words = line.split(/\s+/);
+    const current = words[words.length - 1];
+
+    if (pending || isGraphQL(line)) {
+      const word = line.match(/[_A-Za-z][_0-9A-Za-z]*$/)?.[0] ?? '';
+      return [[...tableNames(), ...fieldNames()].filter(name => name.startsWith(word)), word];
+    }
+    if (words.length === 1) {
+      return [Object.keys(COMMANDS).filter(name => name.startsWith(current)), current];
+    }
+
+    const command = COMMANDS[words[0]];
+    if (!command) {
+      return [[], current];
+    }
+    const table = words[1];
+    const previous = words[words.length - 2];
+    const position = words.length - 2;
+
+    // Comma-separated field lists complete their last entry
+    if (previous === '--fields' || (words[0] === 'count' && previous === 'by')) {
+      const segment = current.slice(current.lastIndexOf(',') + 1);
+      return [fieldNames(table).filter(name => name.startsWith(segment)).map(name => current.slice(0, current.length - segment.length) + name), current];
+    }
+    if (previous === '--format') {
+      return [EXPORT_FORMATS.filter(format => format.startsWith(current)), current];
+    }
+
+    const kind = command.args[position];
+    const candidates =
+      kind === 'table' ? tableNames()
+        : kind === 'field' ? fieldNames(table)
+        : kind === 'endpoint' ? endpoints
+        : kind === 'output' ? PRINT_FORMATS
+        : current.startsWith('-') ? command.options || []
+        : command.conditions && !CONDITION.test(current) ? fieldNames(table)
+        : [];
+    return [candidates.filter(candidate => candidate.startsWith(current)), current];
+  };
+
+  const history = readHistory(options.historyFile);
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+    completer: (line: string, callback: (error: null, result: [string[], string]) => void) => callback(null, complete(line)),
+    history,
+    historySize: HISTORY_SIZE,
+    terminal: process.stdin.isTTY,
+  } as readline.ReadLineOptions);
+  rl.on('history', (lines: string[]) => writeHistory(options.historyFile, lines));
+
+  const prompt = () => {
+    rl.setPrompt(pending ? chalk.gray('...> ') : chalk.cyan(`baseql:${endpoint}> `));
+    rl.prompt();
+  };
+
+  const runQuery = async (query: string) => {
+    lastQuery = query;
+    const data = await run('query', { query, variables });
+    printResult(data, output, queryResultLists(data));
+  };
+
+  const handle = async (line: string): Promise<boolean> => {
+    if (pending || isGraphQL(line)) {
+      pending = pending ? `${pending}\n${line}` : line;
+      if (braceDepth(pending) > 0) {
+        return true;
+      }
+      const query = pending;
+      pending = '';
+      await runQuery(query);
+      return true;
+    }
+
+    const [name, ...rest] = tokenize(line);
+    if (!name) {
+      return true;
+    }
+    const command = COMMANDS[name];
+    if (!command) {
+      console.error(chalk.red(`Unknown command "${name}". Type "help" for the list.`));
+      return true;
+    }
+    const args = parseArgs(rest, !!command.conditions);
+    const [table] = args.positional;
+    const kindOf: FieldKind = field => scalarKindAt(schema, table, field);
+    const requireTable = () => {
+      if (!table) {
+        throw new Error(`Usage: ${command.usage}`);
+      }
+      return table;
+    };
+
+    switch (name) {
+      case 'exit':
+        return false;
+
+      case 'help': {
+        const topic = args.positional[0];
+        if (topic && COMMANDS[topic]) {
+          console.log(`${chalk.cyan(COMMANDS[topic].usage)}\n  ${COMMANDS[topic].description}`);
+        } else {
+          printHelp();
+        }
+        return true;
+      }
+
+      case 'tables': {
+        const data = await run('listTables', {});
+        printResult(data, output, { tables: data });
+        return true;
+      }
+
+      case 'schema': {
+        const data = await run('getTableSchema', { tableName: requireTable() });
+        printResult(data, output, {
+          fields: data.fields.map((field: any) => ({
+            name: field.name,
+            type: field.type,
+            linkedTable: field.linkedTable,
+            options: field.enumValues,
+            description: field.description,
+          })),
+        });
+        return true;
+      }
+
+      case 'find': {
+        const offset = parseCount(args.options.offset, 'offset') ?? 0;
+        const data = await run('queryTable', {
+          tableName: requireTable(),
+          filter: conditionsToFilter(args.conditions, kindOf),
+          fields: parseList(args.options.fields),
+          sort: parseSort(args.options.sort),
+          limit: parseCount(args.options.limit, 'limit'),
+          offset,
+        });
+        printResult(data, output, { [table]: data[table] });
+        if (data.pageInfo?.hasMore) {
+          console.log(chalk.gray(`More records match: add --offset ${offset + data.pageInfo.returned}`));
+        }
+        return true;
+      }
+
+      case 'search': {
+        const searchTerm = args.positional.slice(1).join(' ');
+        if (!searchTerm) {
+          throw new Error(`Usage: ${command.usage}`);
+        }
+        const data = await run('searchTable', {
+          tableName: requireTable(),
+          searchTerm,
+          fields: parseList(args.options.fields),
+          limit: parseCount(args.options.limit, 'limit'),
+        });
+        printResult(data, output, { results: data.results });
+        return true;
+      }
+
+      case 'options': {
+        const fieldName = args.positional[1];
+        if (!fieldName) {
+          throw new Error(`Usage: ${command.usage}`);
+        }
+        const data = await run('getFieldOptions', {
+          tableName: requireTable(),
+          fieldName,
+          filter: conditionsToFilter(args.conditions, kindOf),
+        });
+        printResult(data, output, { values: data.values });
+        return true;
+      }
+
+      case 'count': {
+        const byIndex = args.positional.indexOf('by');
+        const data = await run('aggregateTable', {
+          tableName: requireTable(),
+          filter: conditionsToFilter(args.conditions, kindOf),
+          groupBy: byIndex > 0 ? parseList(args.positional[byIndex + 1]) : undefined,
+        });
+        printResult(data, output, { rows: data.rows });
+        return true;
+      }
+
+      case 'export': {
+        const data = await run('exportTable', {
+          tableName: requireTable(),
+          filter: conditionsToFilter(args.conditions, kindOf),
+          fields: parseList(args.options.fields),
+          sort: parseSort(args.options.sort),
+          fileFormat: args.options.format,
+          fileName: args.options.file,
+          limit: parseCount(args.options.limit, 'limit'),
+        });
+        console.log(chalk.green(`✅ Exported ${data.rows} records to ${data.path}`));
+        return true;
+      }
+
+      case 'create':
+      case 'update':
+      case 'delete': {
+        const id = args.positional[1];
+        if (name !== 'create' && !id) {
+          throw new Error(`Usage: ${command.usage}`);
+        }
+        const tool = `${name}Record`;
+        const data = await run(tool, {
+          tableName: requireTable(),
+          id: name === 'create' ? undefined : id,
+          fields: name === 'delete' ? undefined : assignments(args.conditions, kindOf),
+        });
+        printResult(data, output, data.record ? { record: [data.record].flat() } : {});
+        return true;
+      }
+
+      case 'refresh': {
+        const data = await run('refreshSchema', {});
+        await loadSchema();
+        console.log(chalk.green(`✅ Schema reloaded: ${data.tableCount} tables`));
+        return true;
+      }
+
+      case 'clear-cache': {
+        const data = await run('clearCache', {});
+        console.log(chalk.green(`✅ Cleared ${data.entriesCleared} cached results`));
+        return true;
+      }
+
+      case 'vars': {
+        // Taken from the raw line, since tokenizing would strip the JSON's quotes
+        const value = line.trim().slice(name.length).trim();
+        if (value === 'clear') {
+          variables = undefined;
+        } else if (value) {
+          const parsed = JSON.parse(value);
+          if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+            throw new Error('Variables must be a JSON object, e.g. vars {"type": "Student"}');
+          }
+          variables = parsed;
+        }
+        console.log(JSON.stringify(variables ?? {}, null, 2));
+        return true;
+      }
+
+      case 'save': {
+        const [queryName, ...description] = rest;
+        if (!queryName) {
+          throw new Error(`Usage: ${command.usage}`);
+        }
+        if (!lastQuery) {
+          throw new Error('Run a GraphQL query first; save stores the last one');
+        }
+        const file = await saveNamedQuery(options.queriesDir, {
+          name: queryName,
+          description: description.join(' ') || undefined,
+          query: lastQuery,
+        }).catch(error => {
+          if (error.code === 'EEXIST') {
+            throw new Error(`A query named ${queryName} already exists in ${options.queriesDir}; choose another name`);
+          }
+          throw error;
+        });
+        console.log(chalk.green(`✅ Saved ${queryName} to ${file}`));
+        return true;
+      }
+
+      case 'output': {
+        const value = args.positional[0];
+        if (value) {
+          if (!PRINT_FORMATS.includes(value)) {
+            throw new Error(`Use one of: ${PRINT_FORMATS.join(', ')}`);
+          }
+          output = value;
+        }
+        console.log(`Output: ${output}`);
+        return true;
+      }
+
+      case 'use': {
+        const value = args.positional[0];
+        if (!value || !endpoints.includes(value)) {
+          throw new Error(`Use one of: ${endpoints.join(', ')}`);
+        }
+        endpoint = value;
+        await loadSchema();
+        return true;
+      }
+    }
+    return true;
+  };
+
+  console.log(chalk.blue(`BaseQL REPL - ${tableNames().length} tables on "${endpoint}". Type "help" for commands, Tab to complete.`));
+  prompt();
+  for await (const line of rl) {
+    let keepGoing = true;
+    try {
+      keepGoing = await handle(line);
+    } catch (error) {
+      pending = '';
+      console.error(chalk.red(`❌ ${errorMessage(error)}`));
+    }
+    if (!keepGoing) {
+      break;
+    }
+    prompt();
+  }
+  rl.close();
+}
+
+function readHistory(file: string): string[] {
+  try {
+    // The file lists the oldest entry first; readline wants the newest first
+    return fs.readFileSync(file, 'utf-8').split('\n').filter(Boolean).slice(-HISTORY_SIZE).reverse();
+  } catch {
+    return [];
+  }
+}
+
+function writeHistory(file: string, lines: string[]): void {
+  try {
+    fs.mkdirSync(path.dirname(file), { recursive: true, mode: 0o700 });
+    fs.writeFileSync(file, `${[...lines].reverse().join('\n')}\n`, { mode: 0o600 });
+  } catch {
+    // History is a convenience; a read-only home directory should not break the REPL
+  }
+}
@@ -0,0 +1,355 @@
+import { ClientError, GraphQLClient } from "graphql-request";
+import { Kind, parse } from "graphql";
+
+/**
+ * How requests to one BaseQL endpoint are timed out, retried, throttled and cut off.
+ */
+export interface RequestPolicy {
+  /** Milliseconds before a single attempt is aborted */
+  timeoutMs: number;
+  /** Retries after the first attempt for rate limits, 5xx responses, timeouts and network errors */
+  maxRetries: number;
+  /** First backoff delay; doubles on every retry, with full jitter */
+  retryBaseDelayMs: number;
+  /** Ceiling for a single backoff delay, including one requested by Retry-After */
+  retryMaxDelayMs: number;
+  /** Requests allowed in flight at once; the rest wait in line */
+  maxConcurrency: number;
+  /** Consecutive failed attempts that open the circuit breaker */
+  breakerThreshold: number;
+  /** Milliseconds the breaker stays open before letting a trial request through */
+  breakerCooldownMs: number;
+}
+
+export const DEFAULT_REQUEST_POLICY: RequestPolicy = {
+  timeoutMs: 30_000,
+  maxRetries: 3,
+  retryBaseDelayMs: 500,
+  retryMaxDelayMs: 30_000,
+  maxConcurrency: 4,
+  breakerThreshold: 5,
+  breakerCooldownMs: 30_000,
+};
+
+/**
+ * Build a request policy from BASEQL_* environment variables, with explicit overrides on top.
+ */
+export function requestPolicyFromEnv(overrides: Partial<RequestPolicy> = {}): RequestPolicy {
+  const env = (name: string, fallback: number, min: number) => {
+    const value = Number(process.env[name]);
+    return process.env[name] !== undefined && Number.isFinite(value) && value >= min ? value : fallback;
+  };
+
+  const defined = Object.fromEntries(
+    Object.entries(overrides).filter(([, value]) => value !== undefined)
+  ) as Partial<RequestPolicy>;
+
+  return {
+    timeoutMs: env('BASEQL_TIMEOUT_MS', DEFAULT_REQUEST_POLICY.timeoutMs, 1),
+    maxRetries: env('BASEQL_MAX_RETRIES', DEFAULT_REQUEST_POLICY.maxRetries, 0),
+    retryBaseDelayMs: env('BASEQL_RETRY_BASE_DELAY_MS', DEFAULT_REQUEST_POLICY.retryBaseDelayMs, 0),
+    retryMaxDelayMs: env('BASEQL_RETRY_MAX_DELAY_MS', DEFAULT_REQUEST_POLICY.retryMaxDelayMs, 0),
+    maxConcurrency: env('BASEQL_MAX_CONCURRENCY', DEFAULT_REQUEST_POLICY.maxConcurrency, 1),
+    breakerThreshold: env('BASEQL_BREAKER_THRESHOLD', DEFAULT_REQUEST_POLICY.breakerThreshold, 1),
+    breakerCooldownMs: env('BASEQL_BREAKER_COOLDOWN_MS', DEFAULT_REQUEST_POLICY.breakerCooldownMs, 0),
+    ...defined,
+  };
+}
+
+type BreakerState = 'closed' | 'open' | 'half-open';
+
+export interface RequestStats {
+  inFlight: number;
+  queued: number;
+  breaker: BreakerState;
+  consecutiveFailures: number;
+  retries: number;
+  rateLimited: number;
+}
+
+type Failure =
+  | { kind: 'rate-limit'; retryAfterMs?: number; status: number }
+  | { kind: 'transient'; reason: string }
+  | { kind: 'permanent' };
+
+const RETRYABLE_STATUS = new Set([500, 502, 503, 504]);
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Parse a Retry-After header: either delay seconds or an HTTP date.
+ */
+function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function isMutation(document: string): boolean {
+  try {
+    return parse(document).definitions.some(
+      definition => definition.kind === Kind.OPERATION_DEFINITION && definition.operation === 'mutation'
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Counting semaphore that hands out slots in arrival order.
+ */
+class ConcurrencyLimiter {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(private limit: number) {}
+
+  get inFlight(): number {
+    return this.active;
+  }
+
+  get queued(): number {
+    return this.waiting.length;
+  }
+
+  async acquire(): Promise<void> {
+    if (this.active < this.limit) {
+      this.active++;
+      return;
+    }
+    await new Promise<void>(resolve => this.waiting.push(resolve));
+  }
+
+  release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      // The slot passes straight to the next caller, so `active` stays the same
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+/**
+ * GraphQL client for one BaseQL endpoint with per-attempt timeouts, retries with exponential
+ * backoff and jitter (honoring Retry-After), a concurrency limit and a circuit breaker.
+ *
+ * A 429 pauses every request to the endpoint until the server's Retry-After has passed, so a
+ * bulk run backs off as a whole instead of each request hammering the limit on its own.
+ * Mutations are only retried on 429, since a timed-out or failed write may already have landed.
+ */
+export class BaseQLClient {
+  private client: GraphQLClient;
+  private limiter: ConcurrencyLimiter;
+  private breaker: BreakerState = 'closed';
+  private breakerOpenedAt = 0;
+  private trialInFlight = false;
+  private consecutiveFailures = 0;
+  private pausedUntil = 0;
+  private retries = 0;
+  private rateLimited = 0;
+
+  constructor(
+    readonly url: string,
+    apiKey: string,
+    readonly policy: RequestPolicy = DEFAULT_REQUEST_POLICY,
+    private label: string = url
+  ) {
+    this.client = new GraphQLClient(url, {
+      headers: {
+        Authorization: apiKey.startsWith('Bearer ') ? apiKey : `Bearer ${apiKey}`,
+      },
+    });
+    this.limiter = new ConcurrencyLimiter(policy.maxConcurrency);
+  }
+
+  get stats(): RequestStats {
+    return {
+      inFlight: this.limiter.inFlight,
+      queued: this.limiter.queued,
+      breaker: this.currentBreakerState(),
+      consecutiveFailures: this.consecutiveFailures,
+      retries: this.retries,
+      rateLimited: this.rateLimited,
+    };
+  }
+
+  async request<T = any>(document: string, variables?: Record<string, any>): Promise<T> {
+    const mutation = isMutation(document);
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt <= this.policy.maxRetries; attempt++) {
+      const trial = this.enterBreaker();
+      try {
+        const result = await this.attempt<T>(document, variables);
+        this.recordSuccess(trial);
+        return result;
+      } catch (error) {
+        lastError = error;
+        const failure = this.classify(error);
+        this.recordFailure(failure, trial);
+
+        const retryable = failure.kind === 'rate-limit' || (failure.kind === 'transient' && !mutation);
+        if (!retryable || attempt === this.policy.maxRetries) {
+          break;
+        }
+
+        this.retries++;
+        const delay = this.backoffDelay(attempt, failure.kind === 'rate-limit' ? failure.retryAfterMs : undefined);
+        if (failure.kind === 'rate-limit') {
+          this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delay);
+        }
+        await sleep(delay);
+      }
+    }
+
+    throw this.finalError(lastError);
+  }
+
+  private async attempt<T>(document: string, variables?: Record<string, any>): Promise<T> {
+    const pause = this.pausedUntil - Date.now();
+    if (pause > 0) {
+      await sleep(pause);
+    }
+
+    await this.limiter.acquire();
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.policy.timeoutMs);
+    try {
+      return await this.client.request<T>({ document, variables, signal: controller.signal });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new RequestTimeoutError(this.policy.timeoutMs);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      this.limiter.release();
+    }
+  }
+
+  private classify(error: unknown): Failure {
+    if (error instanceof RequestTimeoutError) {
+      return { kind: 'transient', reason: error.message };
+    }
+    if (error instanceof ClientError) {
+      const status = error.response.status;
+      if (status === 429) {
+        const headers = error.response.headers as Headers | undefined;
+        return { kind: 'rate-limit', status, retryAfterMs: parseRetryAfter(headers?.get?.('retry-after')) };
+      }
+      if (RETRYABLE_STATUS.has(status)) {
+        return { kind: 'transient', reason: `HTTP ${status}` };
+      }
+      return { kind: 'permanent' };
+    }
+    // fetch rejects with a TypeError on DNS failures, refused connections and resets
+    if (error instanceof TypeError) {
+      return { kind: 'transient', reason: error.message };
+    }
+    return { kind: 'permanent' };
+  }
+
+  private backoffDelay(attempt: number, retryAfterMs?: number): number {
+    if (retryAfterMs !== undefined) {
+      return Math.min(retryAfterMs, this.policy.retryMaxDelayMs);
+    }
+    const ceiling = Math.min(this.policy.retryBaseDelayMs * 2 ** attempt, this.policy.retryMaxDelayMs);
+    return Math.round(Math.random() * ceiling);
+  }
+
+  private currentBreakerState(): BreakerState {
+    if (this.breaker === 'open' && Date.now() - this.breakerOpenedAt >= this.policy.breakerCooldownMs) {
+      return 'half-open';
+    }
+    return this.breaker;
+  }
+
+  /**
+   * Fail fast while the breaker is open. Once the cooldown passes a single trial request goes
+   * through; returns true for that request.
+   */
+  private enterBreaker(): boolean {
+    const state = this.currentBreakerState();
+    if (state === 'closed') {
+      return false;
+    }
+    if (state === 'half-open' && !this.trialInFlight) {
+      this.breaker = 'half-open';
+      this.trialInFlight = true;
+      return true;
+    }
+    const retryIn = Math.max(0, this.policy.breakerCooldownMs - (Date.now() - this.breakerOpenedAt));
+    throw new CircuitOpenError(this.label, this.consecutiveFailures, retryIn);
+  }
+
+  private recordSuccess(trial: boolean): void {
+    this.consecutiveFailures = 0;
+    this.breaker = 'closed';
+    if (trial) {
+      this.trialInFlight = false;
+    }
+  }
+
+  private recordFailure(failure: Failure, trial: boolean): void {
+    if (trial) {
+      this.trialInFlight = false;
+    }
+    // Rate limits and rejected queries mean the endpoint is up; only outages count toward the breaker
+    if (failure.kind !== 'transient') {
+      if (trial) {
+        this.breaker = 'closed';
+      }
+      if (failure.kind === 'rate-limit') {
+        this.rateLimited++;
+      }
+      return;
+    }
+
+    this.consecutiveFailures++;
+    if (trial || this.consecutiveFailures >= this.policy.breakerThreshold) {
+      this.breaker = 'open';
+      this.breakerOpenedAt = Date.now();
+    }
+  }
+
+  private finalError(error: unknown): unknown {
+    if (error instanceof ClientError && error.response.status === 429) {
+      return new RateLimitError(this.label, this.policy.maxRetries + 1);
+    }
+    return error;
+  }
+}
+
+export class RequestTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`BaseQL request timed out after ${timeoutMs}ms`);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+export class RateLimitError extends Error {
+  constructor(label: string, attempts: number) {
+    super(`BaseQL rate limit exceeded for ${label} after ${attempts} attempts`);
+    this.name = 'RateLimitError';
+  }
+}
+
+export class CircuitOpenError extends Error {
+  constructor(label: string, failures: number, retryInMs: number) {
+    super(
+      `BaseQL endpoint ${label} is unavailable after ${failures} consecutive failures; ` +
+      `requests are paused for another ${Math.ceil(retryInMs / 1000)}s`
+    );
+    this.name = 'CircuitOpenError';
+  }
+}
@@ -0,0 +1,96 @@
+/** Records returned by the `baseql://tables/{table}/sample` resource */
+export const SAMPLE_RECORD_COUNT = 10;
+
+export type TableView = 'schema' | 'sample';
+
+/**
+ * What a `baseql://` URI points at. `endpoint` is absent for the default-endpoint forms
+ * (`baseql://schema`, `baseql://tables/...`).
+ */
+export type ResourceTarget =
+  | { kind: 'schema'; endpoint?: string }
+  | { kind: 'table'; endpoint?: string; table: string; view: TableView }
+  | { kind: 'record'; endpoint?: string; table: string; id: string };
+
+export interface ResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+/** First URI segments of the default endpoint's resources, which endpoint names must not take */
+export const RESERVED_RESOURCE_SEGMENTS = ['schema', 'tables'];
+
+const SEGMENT = '[^/]+';
+const ENDPOINT = '[A-Za-z0-9_-]+';
+const SCHEMA_URI = new RegExp(`^baseql://(?:(${ENDPOINT})/)?schema$`);
+const TABLE_URI = new RegExp(`^baseql://(?:(${ENDPOINT})/)?tables/(${SEGMENT})/(schema|sample)$`);
+const RECORD_URI = new RegExp(`^baseql://(?:(${ENDPOINT})/)?tables/(${SEGMENT})/records/(${SEGMENT})$`);
+
+function decode(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+/**
+ * Parse a `baseql://` resource URI, or return null when it is not one of ours.
+ */
+export function parseResourceUri(uri: string): ResourceTarget | null {
+  const schema = uri.match(SCHEMA_URI);
+  if (schema) {
+    return { kind: 'schema', endpoint: schema[1] };
+  }
+
+  const table = uri.match(TABLE_URI);
+  if (table) {
+    return { kind: 'table', endpoint: table[1], table: decode(table[2]), view: table[3] as TableView };
+  }
+
+  const record = uri.match(RECORD_URI);
+  if (record) {
+    return { kind: 'record', endpoint: record[1], table: decode(record[2]), id: decode(record[3]) };
+  }
+
+  return null;
+}
+
+function prefix(endpoint?: string): string {
+  return endpoint ? `baseql://${endpoint}/` : 'baseql://';
+}
+
+export function tableResourceUri(table: string, view: TableView, endpoint?: string): string {
+  return `${prefix(endpoint)}tables/${encodeURIComponent(table)}/${view}`;
+}
+
+/**
+ * Resource templates for one endpoint; `endpoint` is omitted for the default endpoint's short forms.
+ */
+export function tableResourceTemplates(endpoint?: string): ResourceTemplate[] {
+  const base = `${prefix(endpoint)}tables/{table}`;
+  const where = endpoint ? ` on the "${endpoint}" endpoint` : '';
+
+  return [
+    {
+      uriTemplate: `${base}/schema`,
+      name: `Table schema${endpoint ? ` (${endpoint})` : ''}`,
+      description: `Fields, types and links of a table${where}`,
+      mimeType: 'application/json',
+    },
+    {
+      uriTemplate: `${base}/records/{id}`,
+      name: `Table record${endpoint ? ` (${endpoint})` : ''}`,
+      description: `A single record by ID, with linked records as IDs${where}`,
+      mimeType: 'application/json',
+    },
+    {
+      uriTemplate: `${base}/sample`,
+      name: `Table sample${endpoint ? ` (${endpoint})` : ''}`,
+      description: `The first ${SAMPLE_RECORD_COUNT} records of a table with every field${where}`,
+      mimeType: 'application/json',
+    },
+  ];
+}
@@ -0,0 +1,331 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { parse, print } from "graphql";
+import { BaseQLClient } from './request-client.js';
+
+/**
+ * Seconds a cached response stays fresh for each tool. Entries are shared between tools that send
+ * the same query; the calling tool's TTL decides whether an entry is still usable.
+ */
+export const DEFAULT_CACHE_TTLS: Record<string, number> = {
+  queryTable: 60,
+  searchTable: 60,
+  aggregateTable: 60,
+  getFieldOptions: 300,
+  query: 30,
+};
+
+// On-disk entries are "<endpoint>.<sha256 of query and variables>.json"
+const CACHE_FILE = /^(.+)\.[0-9a-f]{64}\.json$/;
+
+export const DEFAULT_CACHE_MAX_ENTRIES = 500;
+export const DEFAULT_CACHE_MAX_BYTES = 50 * 1024 * 1024;
+
+export interface ResponseCacheOptions {
+  /** Per-tool TTLs in seconds; tools missing here are not cached */
+  ttls: Record<string, number>;
+  maxEntries: number;
+  maxBytes: number;
+  /** Directory to persist entries in so they survive restarts */
+  dir?: string;
+}
+
+interface CacheEntry {
+  endpoint: string;
+  storedAt: number;
+  size: number;
+  value: unknown;
+}
+
+/**
+ * Cache details added to tool results as `_cache`.
+ */
+export interface CacheInfo {
+  /** True when every request the call made was answered from the cache */
+  hit: boolean;
+  hits: number;
+  misses: number;
+  /** Age of the oldest cached response used */
+  ageSeconds?: number;
+  ttlSeconds: number;
+}
+
+/**
+ * Parse a "tool=seconds,tool=seconds" list, as given to --cache-ttl or BASEQL_CACHE_TTL.
+ */
+export function parseCacheTtls(value?: string): Record<string, number> | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const ttls: Record<string, number> = {};
+  for (const item of value.split(',').map(part => part.trim()).filter(Boolean)) {
+    const [tool, seconds] = item.split('=').map(part => part.trim());
+    const ttl = Number(seconds);
+    if (!tool || seconds === undefined || !Number.isFinite(ttl) || ttl < 0) {
+      throw new Error(`Invalid cache TTL "${item}": use tool=seconds, e.g. queryTable=30`);
+    }
+    ttls[tool] = ttl;
+  }
+  return ttls;
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+// Whitespace, comments and argument layout do not change a query's meaning, so they do not change its key
+function normalizeQuery(query: string): string {
+  try {
+    return print(parse(query));
+  } catch {
+    return query.trim();
+  }
+}
+
+/**
+ * In-memory (optionally on-disk) cache of BaseQL responses, keyed by endpoint, normalized query
+ * and variables. Least recently used entries are evicted past the entry and size limits.
+ */
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private totalBytes = 0;
+  // Bumped on invalidation so responses to requests sent before a write are not stored afterwards
+  private generations = new Map<string, number>();
+  private globalGeneration = 0;
+
+  constructor(readonly options: ResponseCacheOptions) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get bytes(): number {
+    return this.totalBytes;
+  }
+
+  ttlFor(tool: string): number | undefined {
+    return this.options.ttls[tool];
+  }
+
+  /**
+   * A requester for one tool call that reads through the cache and tallies hits for `_cache`.
+   */
+  forCall(endpoint: string, client: BaseQLClient, tool: string): CachedRequester {
+    return new CachedRequester(this, endpoint, client, this.ttlFor(tool));
+  }
+
+  async lookup(endpoint: string, query: string, variables: Record<string, any> | undefined, ttlSeconds: number): Promise<{ value: unknown; ageSeconds: number } | null> {
+    const key = this.key(endpoint, query, variables);
+    const entry = this.entries.get(key) || await this.readFromDisk(key);
+    if (!entry) {
+      return null;
+    }
+
+    const ageSeconds = (Date.now() - entry.storedAt) / 1000;
+    if (ageSeconds > ttlSeconds) {
+      return null;
+    }
+
+    // Re-insert to mark the entry as most recently used
+    this.remember(key, entry);
+    return { value: entry.value, ageSeconds };
+  }
+
+  generation(endpoint: string): string {
+    return `${this.globalGeneration}:${this.generations.get(endpoint) || 0}`;
+  }
+
+  async store(endpoint: string, query: string, variables: Record<string, any> | undefined, value: unknown, generation: string): Promise<void> {
+    if (generation !== this.generation(endpoint)) {
+      return;
+    }
+    const serialized = JSON.stringify(value);
+    const size = Buffer.byteLength(serialized);
+    if (size > this.options.maxBytes) {
+      return;
+    }
+
+    const key = this.key(endpoint, query, variables);
+    const entry: CacheEntry = { endpoint, storedAt: Date.now(), size, value };
+    this.remember(key, entry);
+    await this.writeToDisk(key, entry);
+  }
+
+  /**
+   * Drop every entry, or only those of one endpoint. Returns the number of entries removed.
+   */
+  async invalidate(endpoint?: string): Promise<number> {
+    if (endpoint) {
+      this.generations.set(endpoint, (this.generations.get(endpoint) || 0) + 1);
+    } else {
+      this.globalGeneration++;
+    }
+    const removed = new Set<string>();
+    for (const [key, entry] of Array.from(this.entries)) {
+      if (!endpoint || entry.endpoint === endpoint) {
+        this.forget(key, false);
+        removed.add(key);
+      }
+    }
+
+    if (this.options.dir) {
+      const files = await fs.readdir(this.options.dir).catch(() => [] as string[]);
+      for (const file of files) {
+        // Only files named like the cache's own keys; the directory may hold anything else
+        const owner = file.match(CACHE_FILE)?.[1];
+        if (owner !== undefined && (!endpoint || owner === endpoint)) {
+          await fs.rm(path.join(this.options.dir, file), { force: true });
+          removed.add(file.slice(0, -'.json'.length));
+        }
+      }
+    }
+    return removed.size;
+  }
+
+  private key(endpoint: string, query: string, variables?: Record<string, any>): string {
+    const digest = crypto
+      .createHash('sha256')
+      .update(`${normalizeQuery(query)}\n${stableStringify(variables || {})}`)
+      .digest('hex');
+    // The endpoint prefix lets on-disk entries be invalidated per endpoint
+    return `${endpoint}.${digest}`;
+  }
+
+  private remember(key: string, entry: CacheEntry): void {
+    if (this.entries.has(key)) {
+      this.totalBytes -= this.entries.get(key)!.size;
+      this.entries.delete(key);
+    }
+    this.entries.set(key, entry);
+    this.totalBytes += entry.size;
+
+    while (this.entries.size > this.options.maxEntries || this.totalBytes > this.options.maxBytes) {
+      const oldest = this.entries.keys().next().value as string;
+      this.forget(oldest);
+    }
+  }
+
+  private forget(key: string, removeFile = true): void {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return;
+    }
+    this.entries.delete(key);
+    this.totalBytes -= entry.size;
+    if (this.options.dir && removeFile) {
+      fs.rm(this.filePath(key), { force: true }).catch(() => undefined);
+    }
+  }
+
+  private filePath(key: string): string {
+    return path.join(this.options.dir!, `${key}.json`);
+  }
+
+  private async readFromDisk(key: string): Promise<CacheEntry | null> {
+    if (!this.options.dir) {
+      return null;
+    }
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(key), 'utf-8')) as CacheEntry;
+    } catch {
+      return null;
+    }
+  }
+
+  private async writeToDisk(key: string, entry: CacheEntry): Promise<void> {
+    if (!this.options.dir || !this.entries.has(key)) {
+      return;
+    }
+    try {
+      // Cached records are the base's data, so keep them private to the current user
+      await fs.mkdir(this.options.dir, { recursive: true, mode: 0o700 });
+      await fs.writeFile(this.filePath(key), JSON.stringify(entry), { mode: 0o600 });
+    } catch (error: any) {
+      console.error(`Could not write response cache entry to ${this.options.dir}: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Sends one tool call's requests through the cache. Tools without a TTL go straight to BaseQL.
+ */
+export class CachedRequester {
+  private hits = 0;
+  private misses = 0;
+  private oldestAge?: number;
+
+  constructor(
+    private cache: ResponseCache,
+    private endpoint: string,
+    private client: BaseQLClient,
+    private ttlSeconds?: number
+  ) {}
+
+  async request<T = any>(query: string, variables?: Record<string, any>): Promise<T> {
+    if (this.ttlSeconds === undefined || this.ttlSeconds <= 0) {
+      return this.client.request<T>(query, variables);
+    }
+
+    const cached = await this.cache.lookup(this.endpoint, query, variables, this.ttlSeconds);
+    if (cached) {
+      this.hits++;
+      this.oldestAge = Math.max(this.oldestAge ?? 0, cached.ageSeconds);
+      return cached.value as T;
+    }
+
+    this.misses++;
+    const generation = this.cache.generation(this.endpoint);
+    const data = await this.client.request<T>(query, variables);
+    await this.cache.store(this.endpoint, query, variables, data, generation);
+    return data;
+  }
+
+  /**
+   * Answer a result computed from many requests, such as a full-table scan, from the cache. Only
+   * the result is stored, keyed by `name` and `inputs`; `compute` sends its own requests uncached.
+   */
+  async result<T>(name: string, inputs: Record<string, any>, compute: () => Promise<T>): Promise<T> {
+    if (this.ttlSeconds === undefined || this.ttlSeconds <= 0) {
+      return compute();
+    }
+
+    const cached = await this.cache.lookup(this.endpoint, name, inputs, this.ttlSeconds);
+    if (cached) {
+      this.hits++;
+      this.oldestAge = Math.max(this.oldestAge ?? 0, cached.ageSeconds);
+      return cached.value as T;
+    }
+
+    this.misses++;
+    const generation = this.cache.generation(this.endpoint);
+    const value = await compute();
+    await this.cache.store(this.endpoint, name, inputs, value, generation);
+    return value;
+  }
+
+  /**
+   * Cache details for the call, or undefined when it did not go through the cache.
+   */
+  info(): CacheInfo | undefined {
+    if (this.ttlSeconds === undefined || this.ttlSeconds <= 0 || this.hits + this.misses === 0) {
+      return undefined;
+    }
+    return {
+      hit: this.misses === 0,
+      hits: this.hits,
+      misses: this.misses,
+      ageSeconds: this.oldestAge !== undefined ? Math.round(this.oldestAge) : undefined,
+      ttlSeconds: this.ttlSeconds,
+    };
+  }
+}
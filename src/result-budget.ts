@@ -0,0 +1,299 @@
+import crypto from 'crypto';
+
+/**
+ * Responses larger than this many (estimated) tokens are truncated. MCP clients typically warn
+ * or refuse at around 25k tokens per tool result.
+ */
+export const DEFAULT_MAX_RESPONSE_TOKENS = 20_000;
+
+// Rough estimate that holds for JSON and CSV of mostly English text
+const CHARS_PER_TOKEN = 4;
+
+/** Text values longer than this are cut to a preview when a response is over budget */
+export const TEXT_PREVIEW_LENGTH = 200;
+
+/** Truncated results stay available for paging this long after their last use */
+export const STORED_RESULT_TTL_SECONDS = 15 * 60;
+export const MAX_STORED_RESULTS = 20;
+
+export function estimateTokens(characters: number): number {
+  return Math.ceil(characters / CHARS_PER_TOKEN);
+}
+
+type Row = Record<string, unknown>;
+
+export interface FieldStats {
+  type: 'number' | 'string' | 'boolean' | 'list' | 'object' | 'mixed';
+  /** Rows where the field is present and not empty */
+  nonEmpty: number;
+  /** Distinct scalar values (counted up to 1000) */
+  distinct?: number;
+  min?: number;
+  max?: number;
+  /** Longest text value, in characters */
+  maxLength?: number;
+}
+
+export interface ListSummary {
+  totalRows: number;
+  returnedRows: number;
+  /** Offset to pass to getResultPage for the next rows, or null when nothing is left */
+  nextOffset: number | null;
+  /** Fields whose long text values were cut to a preview */
+  previewedFields?: string[];
+  /** Fields left out of the returned rows entirely to make them fit */
+  omittedFields?: string[];
+  /** Statistics over every row of the list (or requested page), including the ones not returned */
+  fieldStats: Record<string, FieldStats>;
+}
+
+/**
+ * Added to a result as `_truncated` when it was cut down to fit the response budget.
+ */
+export interface TruncationSummary {
+  handle: string;
+  maxTokens: number;
+  /** Size the full response would have had */
+  estimatedTokens: number;
+  lists: Record<string, ListSummary>;
+  hint: string;
+}
+
+interface StoredResult {
+  endpoint: string;
+  /** Tables the records were read from */
+  tables: string[];
+  lists: Record<string, Row[]>;
+  lastUsed: number;
+}
+
+/**
+ * Full record lists of truncated responses, kept in memory so the model can page through them
+ * with getResultPage instead of re-running the query. Least recently used results are dropped
+ * past the limit, and every result expires after a period without use.
+ */
+export class ResultStore {
+  private results = new Map<string, StoredResult>();
+
+  constructor(
+    private maxResults = MAX_STORED_RESULTS,
+    private ttlSeconds = STORED_RESULT_TTL_SECONDS
+  ) {}
+
+  newHandle(): string {
+    return `res_${crypto.randomBytes(8).toString('hex')}`;
+  }
+
+  save(handle: string, endpoint: string, tables: string[], lists: Record<string, Row[]>): void {
+    this.results.delete(handle);
+    this.results.set(handle, { endpoint, tables, lists, lastUsed: Date.now() });
+    this.prune();
+  }
+
+  get(handle: string): StoredResult | undefined {
+    this.prune();
+    const result = this.results.get(handle);
+    if (result) {
+      // Re-insert to mark the result as most recently used
+      result.lastUsed = Date.now();
+      this.results.delete(handle);
+      this.results.set(handle, result);
+    }
+    return result;
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - this.ttlSeconds * 1000;
+    for (const [handle, result] of Array.from(this.results)) {
+      if (result.lastUsed < cutoff) {
+        this.results.delete(handle);
+      }
+    }
+    while (this.results.size > this.maxResults) {
+      this.results.delete(this.results.keys().next().value as string);
+    }
+  }
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+function typeOf(value: unknown): FieldStats['type'] {
+  if (Array.isArray(value)) {
+    return 'list';
+  }
+  if (typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean') {
+    return typeof value as FieldStats['type'];
+  }
+  return 'object';
+}
+
+/**
+ * Per-field statistics over every row, so the model knows what was left out without paging.
+ */
+export function computeFieldStats(records: Row[]): Record<string, FieldStats> {
+  const stats: Record<string, FieldStats> = {};
+  const distinctValues = new Map<string, Set<unknown>>();
+
+  for (const record of records) {
+    for (const [field, value] of Object.entries(record)) {
+      if (isEmpty(value)) {
+        stats[field] ??= { type: 'mixed', nonEmpty: 0 };
+        continue;
+      }
+
+      const type = typeOf(value);
+      const entry = stats[field] ??= { type, nonEmpty: 0 };
+      if (entry.nonEmpty === 0) {
+        entry.type = type;
+      } else if (entry.type !== type) {
+        entry.type = 'mixed';
+      }
+      entry.nonEmpty++;
+
+      if (typeof value === 'number') {
+        entry.min = entry.min === undefined ? value : Math.min(entry.min, value);
+        entry.max = entry.max === undefined ? value : Math.max(entry.max, value);
+      }
+      if (typeof value === 'string') {
+        entry.maxLength = Math.max(entry.maxLength ?? 0, value.length);
+      }
+      if (type !== 'list' && type !== 'object') {
+        const seen = distinctValues.get(field) ?? new Set<unknown>();
+        if (seen.size < 1000) {
+          seen.add(value);
+        }
+        distinctValues.set(field, seen);
+      }
+    }
+  }
+
+  for (const [field, entry] of Object.entries(stats)) {
+    if (entry.type !== 'number') {
+      delete entry.min;
+      delete entry.max;
+    }
+    if (entry.type !== 'string') {
+      delete entry.maxLength;
+    }
+    const seen = distinctValues.get(field);
+    if (seen && entry.type !== 'list' && entry.type !== 'object' && entry.type !== 'mixed') {
+      entry.distinct = seen.size;
+    }
+  }
+  return stats;
+}
+
+/**
+ * Cut long strings anywhere in a value down to a preview, noting which top-level fields changed.
+ */
+function previewValue(value: unknown, previewed: Set<string>, field: string): unknown {
+  if (typeof value === 'string' && value.length > TEXT_PREVIEW_LENGTH) {
+    previewed.add(field);
+    return `${value.slice(0, TEXT_PREVIEW_LENGTH)}… (+${value.length - TEXT_PREVIEW_LENGTH} chars)`;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => previewValue(item, previewed, field));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Row).map(([key, item]) => [key, previewValue(item, previewed, field)])
+    );
+  }
+  return value;
+}
+
+function withoutFields(record: Row, fields: string[]): Row {
+  return Object.fromEntries(Object.entries(record).filter(([field]) => !fields.includes(field)));
+}
+
+/** A result cut down by fitToBudget */
+export type TruncatedResult = Row & { _truncated: TruncationSummary };
+
+export interface BudgetOptions {
+  maxTokens: number;
+  /** Size of a candidate result once rendered in the requested format, in characters */
+  measure: (data: Row) => number;
+  handle: string;
+  /** Where each list sits within a stored result, when paging through one */
+  positions?: Record<string, { offset: number; total: number }>;
+}
+
+/**
+ * Fit a result's record lists into the token budget. Long text values become previews, then
+ * as many rows as fit are kept (the same number from every list); if not even one row fits,
+ * the largest fields are left out. Returns null when the result already fits.
+ */
+export function fitToBudget(data: Row, listKeys: string[], options: BudgetOptions): TruncatedResult | null {
+  const maxChars = options.maxTokens * CHARS_PER_TOKEN;
+  const fullSize = options.measure(data);
+  if (fullSize <= maxChars || listKeys.length === 0) {
+    return null;
+  }
+
+  const lists = Object.fromEntries(listKeys.map(key => [key, data[key] as Row[]]));
+  const previewedFields = new Map<string, Set<string>>();
+  const previewed = Object.fromEntries(listKeys.map(key => {
+    const fields = new Set<string>();
+    previewedFields.set(key, fields);
+    return [key, lists[key].map(record =>
+      Object.fromEntries(Object.entries(record).map(([field, value]) => [field, previewValue(value, fields, field)]))
+    )];
+  }));
+  const stats = Object.fromEntries(listKeys.map(key => [key, computeFieldStats(lists[key])]));
+  const omitted: Record<string, string[]> = Object.fromEntries(listKeys.map(key => [key, []]));
+
+  const candidate = (rowsPerList: number): TruncatedResult => {
+    const summary: TruncationSummary = {
+      handle: options.handle,
+      maxTokens: options.maxTokens,
+      estimatedTokens: estimateTokens(fullSize),
+      lists: {},
+      hint: `Call getResultPage with this handle and a list's nextOffset for more rows; the full result is kept for ${STORED_RESULT_TTL_SECONDS / 60} minutes.`,
+    };
+    const result: Row = { ...data };
+    for (const key of listKeys) {
+      const returned = Math.min(rowsPerList, lists[key].length);
+      const { offset, total } = options.positions?.[key] ?? { offset: 0, total: lists[key].length };
+      result[key] = previewed[key].slice(0, returned).map(record => withoutFields(record, omitted[key]));
+      summary.lists[key] = {
+        totalRows: total,
+        returnedRows: returned,
+        nextOffset: offset + returned < total ? offset + returned : null,
+        previewedFields: previewedFields.get(key)!.size > 0 ? Array.from(previewedFields.get(key)!) : undefined,
+        omittedFields: omitted[key].length > 0 ? [...omitted[key]] : undefined,
+        fieldStats: stats[key],
+      };
+    }
+    return { ...result, _truncated: summary };
+  };
+  const fits = (rowsPerList: number) => options.measure(candidate(rowsPerList)) <= maxChars;
+
+  // Leave out the largest fields (never the id) until a single row fits, unless even no rows do
+  for (const key of fits(0) ? listKeys : []) {
+    const fieldSizes = new Map<string, number>();
+    for (const record of previewed[key]) {
+      for (const [field, value] of Object.entries(record)) {
+        fieldSizes.set(field, (fieldSizes.get(field) ?? 0) + (JSON.stringify(value)?.length ?? 0));
+      }
+    }
+    const bySize = Array.from(fieldSizes).filter(([field]) => field !== 'id').sort((a, b) => b[1] - a[1]);
+    while (!fits(1) && bySize.length > 0) {
+      omitted[key].push(bySize.shift()![0]);
+    }
+  }
+
+  // Largest row count that still fits
+  let low = 0;
+  let high = Math.max(...listKeys.map(key => lists[key].length));
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (fits(middle)) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return candidate(low);
+}
@@ -0,0 +1,330 @@
+import { BaseQLClient } from "./request-client.js";
+import { unknownTableError } from "./errors.js";
+import {
+  GraphQLSchema,
+  IntrospectionField,
+  IntrospectionInputValue,
+  IntrospectionQuery,
+  IntrospectionType,
+  buildClientSchema,
+  getIntrospectionQuery,
+} from "graphql";
+
+export const DEFAULT_SCHEMA_TTL_SECONDS = 300;
+
+export interface TypeRef {
+  kind: string;
+  name: string | null;
+  ofType?: TypeRef | null;
+}
+
+/** Broad value category of a field, independent of BaseQL's GraphQL type names. */
+export type ScalarKind = 'string' | 'id' | 'number' | 'boolean' | 'enum' | 'custom';
+
+export interface FieldInfo {
+  name: string;
+  description: string | null;
+  /** Underlying named type, e.g. `String` or `contacts` */
+  typeName: string;
+  /** Kind of the named type: SCALAR, ENUM, OBJECT, ... */
+  kind: string;
+  scalarKind?: ScalarKind;
+  isList: boolean;
+  isNonNull: boolean;
+  /** Table this field links to, for linked-record fields */
+  linkedTable?: string;
+  enumValues?: string[];
+  /** Arguments the field accepts, e.g. `_filter` and `_page_size` on linked-record fields */
+  args: ArgInfo[];
+  typeRef: TypeRef;
+}
+
+export interface TableLink {
+  field: string;
+  table: string;
+  isList: boolean;
+}
+
+export interface TableInfo {
+  name: string;
+  description: string | null;
+  /** Root query field that lists this table's records, when one exists */
+  queryField?: string;
+  /** Arguments of the root query field (`_filter`, `_order_by`, `_page_size`, ...) */
+  queryArgs: ArgInfo[];
+  fields: FieldInfo[];
+  links: TableLink[];
+}
+
+export interface ArgInfo {
+  name: string;
+  typeRef: TypeRef;
+  defaultValue: string | null;
+  /** Fields of the argument's input object type, when it takes one */
+  inputFields?: ArgInfo[];
+}
+
+export interface MutationInfo {
+  name: string;
+  description: string | null;
+  args: ArgInfo[];
+  returnType: TypeRef;
+}
+
+export interface SchemaModel {
+  tables: Map<string, TableInfo>;
+  mutations: MutationInfo[];
+  /** Client-side schema for local validation; absent if the introspection result could not be built */
+  schema?: GraphQLSchema;
+  introspection: IntrospectionQuery;
+  fetchedAt: Date;
+}
+
+const ROOT_TYPE_NAMES = ["Query", "Mutation", "Subscription"];
+
+/**
+ * Strip NON_NULL and LIST wrappers and return the underlying named type.
+ */
+export function unwrapType(type: TypeRef): TypeRef {
+  let current = type;
+  while ((current.kind === 'NON_NULL' || current.kind === 'LIST') && current.ofType) {
+    current = current.ofType;
+  }
+  return current;
+}
+
+/**
+ * Render a type reference in GraphQL SDL notation, e.g. `[String!]!`.
+ */
+export function typeRefToString(type: TypeRef): string {
+  if (type.kind === 'NON_NULL' && type.ofType) {
+    return `${typeRefToString(type.ofType)}!`;
+  }
+  if (type.kind === 'LIST' && type.ofType) {
+    return `[${typeRefToString(type.ofType)}]`;
+  }
+  return type.name || 'String';
+}
+
+function isListType(type: TypeRef): boolean {
+  let current: TypeRef | null | undefined = type;
+  while (current) {
+    if (current.kind === 'LIST') {
+      return true;
+    }
+    current = current.ofType;
+  }
+  return false;
+}
+
+function scalarKindOf(named: TypeRef): ScalarKind | undefined {
+  if (named.kind === 'ENUM') {
+    return 'enum';
+  }
+  if (named.kind !== 'SCALAR') {
+    return undefined;
+  }
+  switch (named.name) {
+    case 'String':
+      return 'string';
+    case 'ID':
+      return 'id';
+    case 'Float':
+    case 'Int':
+      return 'number';
+    case 'Boolean':
+      return 'boolean';
+    default:
+      return 'custom';
+  }
+}
+
+/**
+ * Find a table by name, or explain that it does not exist.
+ */
+export function requireTable(model: SchemaModel, tableName: string): TableInfo {
+  const table = model.tables.get(tableName);
+  if (!table) {
+    throw unknownTableError(tableName, Array.from(model.tables.keys()));
+  }
+  return table;
+}
+
+/**
+ * Render a table for tool and resource responses: fields, types and links.
+ */
+export function describeTable(table: TableInfo) {
+  return {
+    name: table.name,
+    description: table.description,
+    queryField: table.queryField,
+    fields: table.fields.map(field => ({
+      name: field.name,
+      description: field.description,
+      type: typeRefToString(field.typeRef),
+      kind: field.kind,
+      scalarKind: field.scalarKind,
+      isList: field.isList,
+      isNonNull: field.isNonNull,
+      linkedTable: field.linkedTable,
+      enumValues: field.enumValues,
+    })),
+    links: table.links,
+  };
+}
+
+/**
+ * Build the typed schema model from a full introspection result.
+ */
+export function buildSchemaModel(introspection: IntrospectionQuery): SchemaModel {
+  const types = new Map<string, IntrospectionType>();
+  for (const type of introspection.__schema.types) {
+    types.set(type.name, type);
+  }
+
+  const tableTypes = introspection.__schema.types.filter(type =>
+    type.kind === "OBJECT" &&
+    !type.name.startsWith("__") &&
+    !ROOT_TYPE_NAMES.includes(type.name)
+  );
+  const tableNames = new Set(tableTypes.map(type => type.name));
+
+  const queryTypeName = introspection.__schema.queryType?.name;
+  const queryType = queryTypeName ? types.get(queryTypeName) : undefined;
+  const queryFields = queryType && queryType.kind === "OBJECT" ? queryType.fields : [];
+
+  const toArg = (arg: IntrospectionInputValue, depth = 0): ArgInfo => {
+    const typeRef = arg.type as TypeRef;
+    const named = unwrapType(typeRef);
+    const namedType = named.name ? types.get(named.name) : undefined;
+
+    return {
+      name: arg.name,
+      typeRef,
+      defaultValue: arg.defaultValue ?? null,
+      // Input objects rarely nest more than a couple of levels; stop before any recursive type loops
+      inputFields: namedType?.kind === 'INPUT_OBJECT' && depth < 3
+        ? namedType.inputFields.map(field => toArg(field, depth + 1))
+        : undefined,
+    };
+  };
+
+  const toField = (field: IntrospectionField): FieldInfo => {
+    const typeRef = field.type as TypeRef;
+    const named = unwrapType(typeRef);
+    const namedType = named.name ? types.get(named.name) : undefined;
+
+    return {
+      name: field.name,
+      description: field.description ?? null,
+      typeName: named.name || 'String',
+      kind: named.kind,
+      scalarKind: scalarKindOf(named),
+      isList: isListType(typeRef),
+      isNonNull: typeRef.kind === 'NON_NULL',
+      linkedTable: named.kind === 'OBJECT' && named.name && tableNames.has(named.name) ? named.name : undefined,
+      enumValues: namedType?.kind === 'ENUM' ? namedType.enumValues.map(value => value.name) : undefined,
+      args: field.args.map(arg => toArg(arg)),
+      typeRef,
+    };
+  };
+
+  const tables = new Map<string, TableInfo>();
+  for (const type of tableTypes) {
+    if (type.kind !== "OBJECT") {
+      continue;
+    }
+    const fields = type.fields.map(toField);
+    // Prefer a root field named after the table, then any root field returning it
+    const queryField = queryFields.find(field => field.name === type.name)
+      || queryFields.find(field => unwrapType(field.type as TypeRef).name === type.name && isListType(field.type as TypeRef));
+
+    tables.set(type.name, {
+      name: type.name,
+      description: type.description ?? null,
+      queryField: queryField?.name,
+      queryArgs: queryField ? queryField.args.map(arg => toArg(arg)) : [],
+      fields,
+      links: fields
+        .filter(field => field.linkedTable)
+        .map(field => ({ field: field.name, table: field.linkedTable!, isList: field.isList })),
+    });
+  }
+
+  const mutationTypeName = introspection.__schema.mutationType?.name;
+  const mutationType = mutationTypeName ? types.get(mutationTypeName) : undefined;
+  const mutations = mutationType && mutationType.kind === "OBJECT"
+    ? mutationType.fields.map(field => ({
+        name: field.name,
+        description: field.description ?? null,
+        args: field.args.map(arg => toArg(arg)),
+        returnType: field.type as TypeRef,
+      }))
+    : [];
+
+  let schema: GraphQLSchema | undefined;
+  try {
+    schema = buildClientSchema(introspection);
+  } catch {
+    // Some endpoints return introspection results graphql-js rejects; tools still work from the model
+  }
+
+  return {
+    tables,
+    mutations,
+    schema,
+    introspection,
+    fetchedAt: new Date(),
+  };
+}
+
+/**
+ * Holds one introspected schema per endpoint and refreshes it after the TTL expires or on demand.
+ * Concurrent callers share a single in-flight introspection request.
+ */
+export class SchemaCache {
+  private model: SchemaModel | null = null;
+  private pending: Promise<SchemaModel> | null = null;
+
+  constructor(
+    private client: BaseQLClient,
+    private ttlSeconds: number = DEFAULT_SCHEMA_TTL_SECONDS
+  ) {}
+
+  async get(): Promise<SchemaModel> {
+    if (this.model && !this.isExpired(this.model)) {
+      return this.model;
+    }
+    return this.refresh();
+  }
+
+  async refresh(): Promise<SchemaModel> {
+    if (!this.pending) {
+      this.pending = this.load().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  /**
+   * The cached schema, if one has been loaded, without fetching or checking the TTL.
+   */
+  peek(): SchemaModel | null {
+    return this.model;
+  }
+
+  invalidate(): void {
+    this.model = null;
+  }
+
+  private isExpired(model: SchemaModel): boolean {
+    return Date.now() - model.fetchedAt.getTime() > this.ttlSeconds * 1000;
+  }
+
+  private async load(): Promise<SchemaModel> {
+    const introspection = await this.client.request<IntrospectionQuery>(getIntrospectionQuery({ descriptions: true }));
+    this.model = buildSchemaModel(introspection);
+    return this.model;
+  }
+}
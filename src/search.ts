@@ -0,0 +1,154 @@
+export type MatchMode = 'contains' | 'prefix' | 'token' | 'exact';
+
+export const MATCH_MODES: MatchMode[] = ['contains', 'prefix', 'token', 'exact'];
+
+// How closely a value matched, best first; used to rank results within a field
+const MATCH_QUALITY = {
+  exact: 4,
+  prefix: 3,
+  token: 2,
+  contains: 1,
+} as const;
+
+type MatchType = keyof typeof MATCH_QUALITY;
+
+export interface FieldMatch {
+  field: string;
+  type: MatchType;
+}
+
+export interface SearchHit<T> {
+  record: T;
+  matches: FieldMatch[];
+}
+
+function tokenize(value: string): string[] {
+  return value.toLowerCase().split(/[^\p{L}\p{N}@.]+/u).filter(Boolean);
+}
+
+/**
+ * Classify how a single value matches the search term under the given mode,
+ * returning the best match type or null. Comparison is case-insensitive.
+ */
+function matchValue(value: string, term: string, mode: MatchMode): MatchType | null {
+  const haystack = value.toLowerCase();
+  const needle = term.toLowerCase();
+
+  if (haystack === needle) {
+    return 'exact';
+  }
+  if (mode === 'exact') {
+    return null;
+  }
+  if (haystack.startsWith(needle)) {
+    return 'prefix';
+  }
+  if (mode === 'prefix') {
+    return null;
+  }
+
+  // Every search token must start some word of the value: "jo smi" matches "John Smith"
+  const words = tokenize(value);
+  const searchTokens = tokenize(term);
+  if (searchTokens.length > 0 && searchTokens.every(token => words.some(word => word.startsWith(token)))) {
+    return 'token';
+  }
+  if (mode === 'token') {
+    return null;
+  }
+
+  return haystack.includes(needle) ? 'contains' : null;
+}
+
+function bestMatch(value: unknown, term: string, mode: MatchMode): MatchType | null {
+  // Multi-select and lookup fields come back as arrays; any element may match
+  const values = Array.isArray(value) ? value : [value];
+  let best: MatchType | null = null;
+
+  for (const item of values) {
+    if (item === null || item === undefined) {
+      continue;
+    }
+    const type = matchValue(String(item), term, mode);
+    if (type && (!best || MATCH_QUALITY[type] > MATCH_QUALITY[best])) {
+      best = type;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Multi-word terms may span fields: "ada love" matches firstName "Ada" + lastName "Lovelace".
+ * Returns a token match for each field that contributed a word, or nothing.
+ */
+function matchTokensAcrossFields(record: Record<string, any>, fields: string[], term: string): FieldMatch[] {
+  const searchTokens = tokenize(term);
+  if (searchTokens.length < 2) {
+    return [];
+  }
+
+  const contributing = new Set<string>();
+  for (const token of searchTokens) {
+    const field = fields.find(name => {
+      const values = Array.isArray(record[name]) ? record[name] : [record[name]];
+      return values.some((value: unknown) =>
+        value !== null && value !== undefined && tokenize(String(value)).some(word => word.startsWith(token))
+      );
+    });
+    if (!field) {
+      return [];
+    }
+    contributing.add(field);
+  }
+
+  return fields.filter(field => contributing.has(field)).map(field => ({ field, type: 'token' as const }));
+}
+
+/**
+ * Match records against a term across several fields, de-duplicate by `id` and rank
+ * the hits: records matching an earlier field in `fields` come first, then better
+ * match types (exact, prefix, token, contains), then records matching more fields.
+ */
+export function searchRecords<T extends Record<string, any>>(
+  records: T[],
+  fields: string[],
+  term: string,
+  mode: MatchMode
+): SearchHit<T>[] {
+  const hits: SearchHit<T>[] = [];
+  const seen = new Set<string>();
+
+  for (const record of records) {
+    if (record.id !== undefined) {
+      if (seen.has(String(record.id))) {
+        continue;
+      }
+      seen.add(String(record.id));
+    }
+
+    const matches: FieldMatch[] = [];
+    for (const field of fields) {
+      const type = bestMatch(record[field], term, mode);
+      if (type) {
+        matches.push({ field, type });
+      }
+    }
+
+    if (matches.length === 0 && mode !== 'exact' && mode !== 'prefix') {
+      matches.push(...matchTokensAcrossFields(record, fields, term));
+    }
+
+    if (matches.length > 0) {
+      hits.push({ record, matches });
+    }
+  }
+
+  const rank = (hit: SearchHit<T>) => fields.indexOf(hit.matches[0].field);
+
+  return hits.sort((a, b) =>
+    rank(a) - rank(b) ||
+    MATCH_QUALITY[b.matches[0].type] - MATCH_QUALITY[a.matches[0].type] ||
+    b.matches.length - a.matches.length
+  );
+}
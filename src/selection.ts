@@ -0,0 +1,272 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import {
+  FilterInput,
+  FilterPlan,
+  applyResidualFilter,
+  assertFilterFields,
+  describeFilterPlan,
+  filterFields,
+  parseFilter,
+  planFilter,
+} from './filter.js';
+import { BASEQL_MAX_PAGE_SIZE } from './pagination.js';
+import { unknownFieldError } from './errors.js';
+import { AccessPolicy, assertTableAccess } from './query-guard.js';
+import { FieldInfo, SchemaModel, TableInfo, requireTable } from './schema-cache.js';
+
+/**
+ * One entry of a `fields` list. Strings are field names or dotted paths through linked
+ * records (`"purchaser.team.name"`); objects map a field or path to `true` or to a nested
+ * selection with its own fields, filter and limit:
+ *
+ *   ["id", "purchaser.fullName", { "lineItems": { "fields": ["sku", "qty"], "filter": { "qty": { "gt": 1 } }, "limit": 5 } }]
+ */
+export type FieldSpec = string | { [path: string]: true | NestedSelectionInput };
+
+export interface NestedSelectionInput {
+  fields?: FieldSpec[];
+  filter?: FilterInput;
+  limit?: number;
+}
+
+export interface SelectionNode {
+  name: string;
+  /** Schema field; absent for `__typename` */
+  field?: FieldInfo;
+  /** Selection inside a linked record or other object field */
+  children?: SelectionTree;
+  /** Filter applied to the linked records of this field */
+  filterPlan?: FilterPlan;
+  /** Maximum linked records kept for this field */
+  limit?: number;
+}
+
+export interface SelectionTree {
+  table: TableInfo;
+  nodes: Map<string, SelectionNode>;
+  /** Fields selected only so a filter can be evaluated; removed from the results */
+  hiddenFields: string[];
+}
+
+/** Deepest chain of linked tables a single selection may follow */
+export const MAX_SELECTION_DEPTH = 5;
+
+const FILTER_ARG = '_filter';
+const PAGE_SIZE_ARG = '_page_size';
+
+function invalid(message: string): McpError {
+  return new McpError(ErrorCode.InvalidRequest, `Invalid field selection: ${message}`);
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+export function hasFieldArg(field: FieldInfo | undefined, argName: string): boolean {
+  return !!field?.args.some(arg => arg.name === argName);
+}
+
+/**
+ * Resolve a `fields` list against the schema into a selection tree, following linked-record
+ * fields to their tables. Linked fields selected without sub-fields return only their `id`s.
+ * Every linked table the selection enters must be permitted by the access policy.
+ */
+export function parseSelection(schema: SchemaModel, table: TableInfo, specs: FieldSpec[], policy: AccessPolicy, depth = 0): SelectionTree {
+  if (depth > MAX_SELECTION_DEPTH) {
+    throw invalid(`linked records can be followed at most ${MAX_SELECTION_DEPTH} levels deep`);
+  }
+
+  const tree: SelectionTree = { table, nodes: new Map(), hiddenFields: [] };
+  // Sub-selections gathered per field before they are resolved, so "a.b" and "a.c" merge
+  const pending = new Map<string, { specs: FieldSpec[]; options?: NestedSelectionInput; bare?: boolean }>();
+
+  const add = (path: string, value: true | NestedSelectionInput) => {
+    if (typeof path !== 'string' || path.length === 0) {
+      throw invalid('field paths must be non-empty strings');
+    }
+    const [name, ...rest] = path.split('.');
+    const entry = pending.get(name) || { specs: [] };
+    pending.set(name, entry);
+
+    if (rest.length > 0) {
+      entry.specs.push(value === true ? rest.join('.') : { [rest.join('.')]: value });
+    } else if (value === true) {
+      // Selected on its own, e.g. "purchaser": keeps the linked ids even next to "purchaser.fullName"
+      entry.bare = true;
+    } else {
+      if (!isObject(value)) {
+        throw invalid(`"${path}" must map to true or to an object with fields, filter and limit`);
+      }
+      if (entry.options) {
+        throw invalid(`"${path}" has more than one nested selection`);
+      }
+      entry.options = value;
+      entry.specs.push(...(value.fields || []));
+    }
+  };
+
+  for (const spec of specs) {
+    if (typeof spec === 'string') {
+      add(spec, true);
+    } else if (isObject(spec)) {
+      for (const [path, value] of Object.entries(spec)) {
+        add(path, value as true | NestedSelectionInput);
+      }
+    } else {
+      throw invalid('each entry must be a field name, a dotted path or a nested selection object');
+    }
+  }
+
+  for (const [name, { specs: childSpecs, options, bare }] of pending) {
+    tree.nodes.set(name, resolveNode(schema, table, name, childSpecs, options, policy, depth, bare));
+  }
+
+  return tree;
+}
+
+function resolveNode(
+  schema: SchemaModel,
+  table: TableInfo,
+  name: string,
+  childSpecs: FieldSpec[],
+  options: NestedSelectionInput | undefined,
+  policy: AccessPolicy,
+  depth: number,
+  bare = false
+): SelectionNode {
+  if (name === '__typename') {
+    return { name };
+  }
+
+  const field = table.fields.find(f => f.name === name);
+  if (!field) {
+    throw unknownFieldError(name, table.name, table.fields.map(f => f.name));
+  }
+
+  if (!field.linkedTable) {
+    if (childSpecs.length > 0 || options) {
+      throw invalid(`"${name}" on table "${table.name}" is not a linked-record field, so it has no sub-fields`);
+    }
+    return { name, field };
+  }
+
+  assertTableAccess(field.linkedTable, policy);
+  const linkedTable = requireTable(schema, field.linkedTable);
+  const node: SelectionNode = { name, field };
+
+  if (options?.limit !== undefined) {
+    if (!Number.isInteger(options.limit) || options.limit <= 0) {
+      throw invalid(`limit on "${name}" must be a positive integer`);
+    }
+    node.limit = options.limit;
+  }
+
+  if (options?.filter && Object.keys(options.filter).length > 0) {
+    // Linked fields without a _filter argument evaluate the whole filter client-side
+    node.filterPlan = hasFieldArg(field, FILTER_ARG)
+      ? planFilter(options.filter)
+      : residualOnly(options.filter);
+    assertFilterFields(node.filterPlan, linkedTable.name, linkedTable.fields.map(f => f.name));
+  }
+
+  const specs = childSpecs.length === 0 ? ['id'] : bare ? ['id', ...childSpecs] : childSpecs;
+  const visible = parseSelection(schema, linkedTable, specs, policy, depth + 1);
+  const hidden = (node.filterPlan?.residualFields || []).filter(f => !visible.nodes.has(f));
+
+  node.children = hidden.length > 0
+    ? { ...parseSelection(schema, linkedTable, [...specs, ...hidden], policy, depth + 1), hiddenFields: hidden }
+    : visible;
+
+  return node;
+}
+
+function residualOnly(filter: FilterInput): FilterPlan {
+  const residual = parseFilter(filter);
+  return { pushed: {}, residual, residualFields: filterFields(residual) };
+}
+
+/**
+ * Page size to request from BaseQL for a linked field, when the limit can be applied there.
+ * Limits are left to the client when a client-side filter still has to run first.
+ */
+export function nestedPageSize(node: SelectionNode): number | undefined {
+  if (node.limit === undefined || node.filterPlan?.residual || !hasFieldArg(node.field, PAGE_SIZE_ARG)) {
+    return undefined;
+  }
+  return Math.min(node.limit, BASEQL_MAX_PAGE_SIZE);
+}
+
+/**
+ * Apply nested filters and limits that BaseQL could not evaluate and strip helper fields,
+ * at every level of the selection.
+ */
+export function shapeRecords(records: Record<string, any>[], tree: SelectionTree): Record<string, any>[] {
+  return records.map(record => shapeRecord(record, tree));
+}
+
+function shapeRecord(record: Record<string, any>, tree: SelectionTree): Record<string, any> {
+  if (!isObject(record)) {
+    return record;
+  }
+
+  const shaped: Record<string, any> = { ...record };
+  for (const node of tree.nodes.values()) {
+    const value = shaped[node.name];
+    if (!node.children || value === null || value === undefined) {
+      continue;
+    }
+
+    if (Array.isArray(value)) {
+      let linked = node.filterPlan ? applyResidualFilter(value, node.filterPlan) : value;
+      if (node.limit !== undefined) {
+        linked = linked.slice(0, node.limit);
+      }
+      shaped[node.name] = shapeRecords(linked, node.children);
+    } else {
+      const keep = !node.filterPlan || applyResidualFilter([value], node.filterPlan).length > 0;
+      shaped[node.name] = keep ? shapeRecord(value, node.children) : null;
+    }
+  }
+
+  tree.hiddenFields.forEach(field => delete shaped[field]);
+  return shaped;
+}
+
+/**
+ * Dotted paths of every selected leaf field, e.g. `company.name`, matching the columns of
+ * flattened records. `__typename` and filter-only fields are left out.
+ */
+export function selectionColumns(tree: SelectionTree, prefix = ''): string[] {
+  const columns: string[] = [];
+  for (const node of tree.nodes.values()) {
+    if (node.name === '__typename' || tree.hiddenFields.includes(node.name)) {
+      continue;
+    }
+    const path = `${prefix}${node.name}`;
+    columns.push(...(node.children ? selectionColumns(node.children, `${path}.`) : [path]));
+  }
+  return columns;
+}
+
+/**
+ * Describe the filters and limits applied below the top level, keyed by field path.
+ */
+export function describeNestedSelection(tree: SelectionTree, prefix = ''): Record<string, any> {
+  const described: Record<string, any> = {};
+
+  for (const node of tree.nodes.values()) {
+    if (!node.children) {
+      continue;
+    }
+    const path = `${prefix}${node.name}`;
+    if (node.filterPlan || node.limit !== undefined) {
+      described[path] = {
+        ...(node.filterPlan ? describeFilterPlan(node.filterPlan) : {}),
+        limit: node.limit,
+      };
+    }
+    Object.assign(described, describeNestedSelection(node.children, `${path}.`));
+  }
+
+  return described;
+}
@@ -2,21 +2,52 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
   CallToolRequestSchema,
+  CompleteRequestSchema,
   ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListResourcesRequestSchema,
   ListToolsRequestSchema,
   McpError,
   ReadResourceRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
-import { GraphQLClient, gql } from "graphql-request";
 import dotenv from "dotenv";
+import { Kind, print } from "graphql";
 import fs from "fs";
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
+import { buildRecordMutation, discoverTableMutations, requireMutation } from './mutations.js';
+import { AccessPolicy, allowedFieldNames, assertQueryAllowed, assertTableAccess, assertWritesAllowed, isTableAllowed, parseTableList, queryTables, redactIntrospection } from './query-guard.js';
+import { DEFAULT_SCHEMA_TTL_SECONDS, SchemaModel, describeTable, requireTable } from './schema-cache.js';
+import { DEFAULT_ENDPOINT_NAME, EndpointConnection, EndpointRegistry, EndpointsConfig, loadEndpointsFile, resolveEndpointCredentials } from './endpoints.js';
+import { DEFAULT_CREDENTIAL_NAME } from './credentials.js';
+import { RequestPolicy, requestPolicyFromEnv } from './request-client.js';
+import { baseqlError, closestMatches, hintForGraphQLMessage, translateError, unknownFieldError } from './errors.js';
+import { CacheInfo, DEFAULT_CACHE_MAX_BYTES, DEFAULT_CACHE_MAX_ENTRIES, DEFAULT_CACHE_TTLS, ResponseCache, parseCacheTtls } from './response-cache.js';
+import { BASEQL_MAX_PAGE_SIZE, DEFAULT_MAX_RECORDS, DEFAULT_MAX_SCAN_RECORDS, RecordWindow, decodeCursor, encodeCursor, fetchAllRecords, fetchRecordWindow } from './pagination.js';
+import { applyResidualFilter, assertFilterFields, describeFilterPlan, planFilter } from './filter.js';
+import { buildPageQuery } from './query-builder.js';
+import { PromptDefinition, loadPromptDirectory, mergePrompts, renderPrompt } from './prompts.js';
+import { SAMPLE_RECORD_COUNT, parseResourceUri, tableResourceTemplates, tableResourceUri } from './resources.js';
+import { FieldSpec, MAX_SELECTION_DEPTH, describeNestedSelection, parseSelection, selectionColumns, shapeRecords } from './selection.js';
+import { AGGREGATE_OPS, AggregateSpec, aggregateAlias, aggregateRecords } from './aggregate.js';
+import { MATCH_MODES, MatchMode, searchRecords } from './search.js';
+import { DEFAULT_OUTPUT_FORMAT, FORMAT_DESCRIPTION, OUTPUT_FORMATS, OutputFormat, RowsLocation, TextContent, contentLength, formatResult, isOutputFormat, recordListKeys } from './formatters.js';
+import { DEFAULT_EXPORT_DIR, EXPORT_FORMATS, ExportFormat, ExportWriter, exportFileName, isExportFormat } from './export.js';
+import { DEFAULT_MAX_RESPONSE_TOKENS, ResultStore, STORED_RESULT_TTL_SECONDS, estimateTokens, fitToBudget } from './result-budget.js';
+import { DEFAULT_HTTP_HOST, DEFAULT_HTTP_PORT, startHttpTransport } from './http-transport.js';
+import { NamedQueryTool, loadNamedQueryDirectory, validateNamedQuery } from './named-queries.js';
+import { QueryFix, autofixDocument, describeFix, validationErrors } from './query-validation.js';
 
 // Load environment variables from .env file
 dotenv.config();
 
+const FILTER_DESCRIPTION = "Filter conditions. Plain values are exact matches: {\"type\": \"Student\"}; linked records match by ID: {\"purchaser\": [\"rec123xyz\"]}. Operators go in an object per field: eq, ne, gt, gte, lt, lte, between ([from, to]), in/notIn (arrays), contains, startsWith (case-insensitive), isEmpty (true/false), before/after (dates), e.g., {\"amount\": {\"gt\": 100}, \"created\": {\"between\": [\"2024-01-01\", \"2024-03-31\"]}}. Combine with \"and\"/\"or\" (arrays of filters) and \"not\" (a filter): {\"or\": [{\"type\": \"Student\"}, {\"email\": {\"contains\": \"umd.edu\"}}]}.";
+
+// Wait this long after the last change in the queries directory before reloading it
+const NAMED_QUERY_RELOAD_DELAY_MS = 200;
+
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 const packageJson = JSON.parse(
@@ -26,29 +57,258 @@ const packageJson = JSON.parse(
 export interface BaseQLMCPServerOptions {
   endpoint?: string;
   apiKey?: string;
+  /** Stored credential to load the endpoint and API key from when useKeychain is set */
+  credentialName?: string;
+  /** Endpoints file listing several named BaseQL endpoints; replaces endpoint/apiKey */
+  configFile?: string;
   transport?: 'stdio' | 'http';
   useKeychain?: boolean;
+  host?: string;
+  port?: number;
+  allowWrites?: boolean;
+  allowedTables?: string[];
+  deniedTables?: string[];
+  schemaTtl?: number;
+  maxRecords?: number;
+  /** Records aggregateTable and exhaustive getFieldOptions may scan; separate from maxRecords, which limits returned rows */
+  maxScanRecords?: number;
+  /** Milliseconds before a BaseQL request attempt is aborted */
+  timeoutMs?: number;
+  /** Retries for rate-limited, timed-out and failed BaseQL requests */
+  maxRetries?: number;
+  /** BaseQL requests allowed in flight at once, per endpoint */
+  maxConcurrency?: number;
+  /** Per-tool response cache TTLs in seconds, merged over the defaults */
+  cacheTtls?: Record<string, number>;
+  /** Set to false to turn the response cache off */
+  cache?: boolean;
+  /** Directory to persist cached responses in across restarts */
+  cacheDir?: string;
+  cacheMaxEntries?: number;
+  cacheMaxBytes?: number;
+  /** Directory of team prompt files (*.json) offered alongside the built-in prompts */
+  promptsDir?: string;
+  /** Output format for tool results that do not pass their own `format` */
+  defaultFormat?: OutputFormat;
+  /** Estimated tokens above which record lists in a result are truncated; 0 turns truncation off */
+  maxResponseTokens?: number;
+  /** Directory exportTable writes files to */
+  exportDir?: string;
+  /** Directory of named queries (*.graphql) offered as additional tools */
+  queriesDir?: string;
 }
 
 export class BaseQLMCPServer {
-  private server: Server;
-  private graphqlClient: GraphQLClient | null = null;
-  private endpoint: string;
-  private apiKey: string;
+  private endpointsConfig: EndpointsConfig;
+  private accessPolicy: AccessPolicy;
+  private endpointRegistry: EndpointRegistry | null = null;
+  private schemaTtl: number;
+  private maxRecords: number;
+  private maxScanRecords: number;
+  private requestPolicy: RequestPolicy;
+  private responseCache: ResponseCache;
+  private promptsDir?: string;
+  private defaultFormat: OutputFormat;
+  private maxResponseTokens: number;
+  // Truncated results of runTool calls; each MCP session keeps its own (see setupHandlers)
+  private resultStore = new ResultStore();
+  private exportDir: string;
+  private queriesDir?: string;
+  private namedQueries = new Map<string, NamedQueryTool>();
+  /** Connected MCP server instances, told when the named query tools change */
+  private activeServers = new Set<Server>();
   private transport: 'stdio' | 'http';
+  private host: string;
+  private port: number;
 
   constructor(options?: BaseQLMCPServerOptions) {
     // Get configuration from options or environment variables
-    this.endpoint = options?.endpoint || process.env.BASEQL_API_ENDPOINT || "";
-    this.apiKey = options?.apiKey || process.env.BASEQL_API_KEY || "";
+    const configFile = options?.configFile || process.env.BASEQL_CONFIG;
+    const endpoint = options?.endpoint || process.env.BASEQL_API_ENDPOINT || "";
+    const apiKey = options?.apiKey || process.env.BASEQL_API_KEY || "";
     this.transport = options?.transport || 'stdio';
+    this.host = options?.host || process.env.BASEQL_MCP_HOST || DEFAULT_HTTP_HOST;
+    this.port = options?.port || Number(process.env.BASEQL_MCP_PORT) || DEFAULT_HTTP_PORT;
+    this.schemaTtl = options?.schemaTtl ?? (Number(process.env.BASEQL_SCHEMA_TTL) || DEFAULT_SCHEMA_TTL_SECONDS);
+    this.maxRecords = options?.maxRecords ?? (Number(process.env.BASEQL_MAX_RECORDS) || DEFAULT_MAX_RECORDS);
+    this.maxScanRecords = options?.maxScanRecords ?? (Number(process.env.BASEQL_MAX_SCAN_RECORDS) || DEFAULT_MAX_SCAN_RECORDS);
+    this.requestPolicy = requestPolicyFromEnv({
+      timeoutMs: options?.timeoutMs,
+      maxRetries: options?.maxRetries,
+      maxConcurrency: options?.maxConcurrency,
+    });
+    const cacheEnabled = options?.cache ?? process.env.BASEQL_CACHE !== 'false';
+    this.responseCache = new ResponseCache({
+      ttls: cacheEnabled
+        ? { ...DEFAULT_CACHE_TTLS, ...parseCacheTtls(process.env.BASEQL_CACHE_TTL), ...options?.cacheTtls }
+        : {},
+      maxEntries: options?.cacheMaxEntries ?? (Number(process.env.BASEQL_CACHE_MAX_ENTRIES) || DEFAULT_CACHE_MAX_ENTRIES),
+      maxBytes: options?.cacheMaxBytes ?? (Number(process.env.BASEQL_CACHE_MAX_BYTES) || DEFAULT_CACHE_MAX_BYTES),
+      dir: cacheEnabled ? options?.cacheDir || process.env.BASEQL_CACHE_DIR || undefined : undefined,
+    });
+    this.promptsDir = options?.promptsDir || process.env.BASEQL_PROMPTS_DIR || undefined;
+    this.exportDir = options?.exportDir || process.env.BASEQL_EXPORT_DIR || DEFAULT_EXPORT_DIR;
+    this.queriesDir = options?.queriesDir || process.env.BASEQL_QUERIES_DIR || undefined;
+    const defaultFormat = options?.defaultFormat || process.env.BASEQL_DEFAULT_FORMAT || DEFAULT_OUTPUT_FORMAT;
+    if (!isOutputFormat(defaultFormat)) {
+      throw new Error(`Invalid output format "${defaultFormat}": use one of ${OUTPUT_FORMATS.join(', ')}`);
+    }
+    this.defaultFormat = defaultFormat;
+    const envMaxTokens = Number(process.env.BASEQL_MAX_RESPONSE_TOKENS);
+    this.maxResponseTokens = options?.maxResponseTokens
+      ?? (process.env.BASEQL_MAX_RESPONSE_TOKENS && envMaxTokens >= 0 ? envMaxTokens : DEFAULT_MAX_RESPONSE_TOKENS);
+    this.accessPolicy = {
+      allowWrites: options?.allowWrites ?? process.env.BASEQL_ALLOW_WRITES === 'true',
+      allowedTables: options?.allowedTables || parseTableList(process.env.BASEQL_ALLOWED_TABLES),
+      deniedTables: options?.deniedTables || parseTableList(process.env.BASEQL_DENIED_TABLES),
+    };
+
+    if (configFile) {
+      this.endpointsConfig = loadEndpointsFile(configFile);
+    } else if (options?.useKeychain) {
+      // The endpoint and API key come from the credential store when the server starts
+      this.endpointsConfig = {
+        defaultEndpoint: DEFAULT_ENDPOINT_NAME,
+        endpoints: [{
+          name: DEFAULT_ENDPOINT_NAME,
+          url: endpoint,
+          apiKey: "",
+          credential: options.credentialName || process.env.BASEQL_CREDENTIAL || DEFAULT_CREDENTIAL_NAME,
+        }],
+      };
+    } else {
+      // Validate configuration
+      if (!endpoint || !apiKey) {
+        throw new Error('BaseQL endpoint and API key are required');
+      }
+      this.endpointsConfig = {
+        defaultEndpoint: DEFAULT_ENDPOINT_NAME,
+        endpoints: [{ name: DEFAULT_ENDPOINT_NAME, url: endpoint, apiKey }],
+      };
+    }
+  }
+
+  /**
+   * Resolve stored credentials and connect to the configured endpoints. Called by start().
+   */
+  async initialize(): Promise<void> {
+    if (this.endpointRegistry) {
+      return;
+    }
+    const config = await resolveEndpointCredentials(this.endpointsConfig);
+    this.endpointRegistry = new EndpointRegistry(config, this.accessPolicy, this.schemaTtl, this.requestPolicy);
+    await this.loadNamedQueries();
+  }
+
+  /**
+   * Load the queries directory and validate each query against the default endpoint's schema.
+   * Files with errors are skipped with a message on stderr. If the schema cannot be fetched,
+   * the queries are offered unvalidated rather than dropped. Runs against other endpoints are
+   * validated against that endpoint's schema when the tool is called.
+   */
+  private async loadNamedQueries(): Promise<void> {
+    if (!this.queriesDir) {
+      return;
+    }
+
+    let schema: SchemaModel | undefined;
+    try {
+      schema = await this.endpoints.get().schemaCache.get();
+    } catch (error: any) {
+      console.error(`Named queries in ${this.queriesDir} were not validated: could not load the schema (${error.message})`);
+    }
+    const { queries, errors } = await loadNamedQueryDirectory(this.queriesDir, {
+      schema: schema?.schema,
+      reservedNames: this.builtInTools().map(tool => tool.name),
+    });
+    errors.forEach(error => console.error(error));
+    this.namedQueries = new Map(queries.map(query => [query.name, query]));
+  }
+
+  /**
+   * Reload the named queries when files in the queries directory change, and tell connected
+   * clients that the tool list changed. Editors often write a file in several steps, so changes
+   * are collected for a moment before reloading.
+   */
+  private watchNamedQueries(): void {
+    if (!this.queriesDir) {
+      return;
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const reload = async () => {
+      await this.loadNamedQueries();
+      console.error(`Reloaded ${this.namedQueries.size} named queries from ${this.queriesDir}`);
+      for (const server of this.activeServers) {
+        // Sessions that have not finished initializing cannot be notified yet
+        await server.sendToolListChanged().catch(() => undefined);
+      }
+    };
+
+    try {
+      fs.watch(this.queriesDir, (_event, file) => {
+        if (file && !file.toString().endsWith('.graphql')) {
+          return;
+        }
+        clearTimeout(timer);
+        timer = setTimeout(() => reload().catch(error => console.error(`Reloading named queries failed: ${error.message}`)), NAMED_QUERY_RELOAD_DELAY_MS);
+      });
+    } catch (error: any) {
+      console.error(`Not watching ${this.queriesDir} for changes: ${error.message}`);
+    }
+  }
+
+  private get endpoints(): EndpointRegistry {
+    if (!this.endpointRegistry) {
+      throw new McpError(ErrorCode.InternalError, "Server endpoints are not initialized; call initialize() or start() first");
+    }
+    return this.endpointRegistry;
+  }
+
+  /**
+   * Translate a tool or resource failure into a coded error. The endpoint's schema, when already
+   * cached, supplies field-name suggestions; it is never fetched just for an error message.
+   */
+  private toolError(error: unknown, action: string, connection: EndpointConnection): McpError {
+    return translateError(error, { action, schema: connection.schemaCache.peek() });
+  }
+
+  /**
+   * Render a tool result. When its records take more than the response budget, they are cut
+   * down (see fitToBudget) and the full lists are kept so getResultPage can return the rest.
+   */
+  private renderResult(
+    data: unknown,
+    format: OutputFormat,
+    rows: RowsLocation | undefined,
+    source: { resultStore: ResultStore; endpoint: string; tables: string[] }
+  ): TextContent[] {
+    const content = formatResult(data, format, rows);
+    const listKeys = recordListKeys(data, rows);
+    if (this.maxResponseTokens <= 0 || listKeys.length === 0 || estimateTokens(contentLength(content)) <= this.maxResponseTokens) {
+      return content;
+    }
 
-    // Validate configuration
-    if (!this.endpoint || !this.apiKey) {
-      throw new Error('BaseQL endpoint and API key are required');
+    const record = data as Record<string, unknown>;
+    const handle = source.resultStore.newHandle();
+    const truncated = fitToBudget(record, listKeys, {
+      maxTokens: this.maxResponseTokens,
+      measure: candidate => contentLength(formatResult(candidate, format, rows)),
+      handle,
+    });
+    if (!truncated) {
+      return content;
     }
+    source.resultStore.save(handle, source.endpoint, source.tables, Object.fromEntries(listKeys.map(key => [key, record[key] as Record<string, unknown>[]])));
+    return formatResult(truncated, format, rows);
+  }
 
-    this.server = new Server(
+  /**
+   * Create an MCP server instance with all handlers registered.
+   * The HTTP transport needs one instance per session, stdio uses a single one.
+   */
+  private createServer(): Server {
+    const server = new Server(
       {
         name: "baseql-mcp",
         version: packageJson.version,
@@ -56,633 +316,1180 @@ export class BaseQLMCPServer {
       {
         capabilities: {
           resources: {},
-          tools: {},
+          tools: this.queriesDir ? { listChanged: true } : {},
+          prompts: {},
+          completions: {},
         },
       }
     );
 
-    this.setupHandlers();
-    this.initializeGraphQLClient();
+    this.setupHandlers(server);
+    this.activeServers.add(server);
+    server.onclose = () => {
+      this.activeServers.delete(server);
+    };
+    return server;
   }
 
-  private initializeGraphQLClient() {
-    if (this.endpoint && this.apiKey) {
-      this.graphqlClient = new GraphQLClient(this.endpoint, {
-        headers: {
-          Authorization: this.apiKey.startsWith('Bearer ') 
-            ? this.apiKey 
-            : `Bearer ${this.apiKey}`,
+  /**
+   * Add the optional `endpoint` argument to a tool's input schema.
+   */
+  private withEndpointArg<T extends { inputSchema: { properties?: Record<string, any> } }>(tool: T): T {
+    return {
+      ...tool,
+      inputSchema: {
+        ...tool.inputSchema,
+        properties: {
+          ...tool.inputSchema.properties,
+          endpoint: {
+            type: "string",
+            enum: this.endpoints.names,
+            description: `BaseQL endpoint to use (default: "${this.endpoints.defaultName}")`,
+          },
         },
-      });
+      },
+    };
+  }
+
+  /**
+   * Built-in prompts plus the team prompts directory, re-read on every request so edits
+   * show up without a restart.
+   */
+  private async loadPrompts(): Promise<PromptDefinition[]> {
+    if (!this.promptsDir) {
+      return mergePrompts([]);
     }
+    const { prompts, errors } = await loadPromptDirectory(this.promptsDir);
+    errors.forEach(error => console.error(error));
+    return mergePrompts(prompts);
   }
 
-  private setupHandlers() {
-    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+  private setupHandlers(server: Server) {
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      const tableResources = await Promise.all(this.endpoints.list().map(async endpoint => {
+        // The default endpoint keeps the short baseql://tables/... form
+        const uriEndpoint = endpoint.name === this.endpoints.defaultName ? undefined : endpoint.name;
+        let tables;
+        try {
+          tables = Array.from((await endpoint.schemaCache.get()).tables.values());
+        } catch {
+          // An unreachable endpoint still lists its schema resource, just no tables
+          return [];
+        }
+
+        return tables
+          .filter(table => table.queryField && isTableAllowed(table.name, endpoint.accessPolicy))
+          .flatMap(table => [
+            {
+              uri: tableResourceUri(table.name, "schema", uriEndpoint),
+              name: `${table.name} schema${uriEndpoint ? ` (${uriEndpoint})` : ""}`,
+              description: table.description || `Fields, types and links of the ${table.name} table`,
+              mimeType: "application/json",
+            },
+            {
+              uri: tableResourceUri(table.name, "sample", uriEndpoint),
+              name: `${table.name} sample${uriEndpoint ? ` (${uriEndpoint})` : ""}`,
+              description: `The first ${SAMPLE_RECORD_COUNT} records of the ${table.name} table`,
+              mimeType: "application/json",
+            },
+          ]);
+      }));
+
       return {
         resources: [
           {
             uri: "baseql://schema",
             name: "BaseQL Schema",
-            description: "GraphQL schema information from your BaseQL endpoint",
+            description: `GraphQL schema information from the default BaseQL endpoint ("${this.endpoints.defaultName}")`,
             mimeType: "application/json",
           },
+          ...this.endpoints.list().map(endpoint => ({
+            uri: `baseql://${endpoint.name}/schema`,
+            name: `BaseQL Schema (${endpoint.name})`,
+            description: endpoint.description
+              ? `GraphQL schema information from ${endpoint.description}`
+              : `GraphQL schema information from the "${endpoint.name}" BaseQL endpoint`,
+            mimeType: "application/json",
+          })),
+          ...tableResources.flat(),
+        ],
+      };
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return {
+        resourceTemplates: [
+          ...tableResourceTemplates(),
+          ...(this.endpoints.size > 1 ? this.endpoints.names.flatMap(name => tableResourceTemplates(name)) : []),
         ],
       };
     });
 
-    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
       const { uri } = request.params;
 
-      if (uri === "baseql://schema") {
-        if (!this.graphqlClient) {
-          throw new McpError(
-            ErrorCode.InvalidRequest,
-            "BaseQL endpoint not configured. Please set BASEQL_API_ENDPOINT and BASEQL_API_KEY environment variables."
-          );
+      const target = parseResourceUri(uri);
+      if (!target) {
+        throw baseqlError('NOT_FOUND', `Unknown resource: ${uri}`, {
+          hint: 'Use resources/list and resources/templates/list to see available resources.',
+        });
+      }
+
+      // baseql://schema and baseql://tables/... use the default endpoint; baseql://<endpoint>/... names one
+      const connection = this.endpoints.get(target.endpoint);
+      if (target.kind !== "schema") {
+        assertTableAccess(target.table, connection.accessPolicy);
+      }
+
+      const contents = (data: unknown) => ({
+        contents: [
+          {
+            uri,
+            mimeType: "application/json",
+            text: JSON.stringify(data, null, 2),
+          },
+        ],
+      });
+
+      try {
+        const schema = await connection.schemaCache.get();
+
+        if (target.kind === "schema") {
+          // Tables the allow/deny lists exclude are left out of the schema as well
+          return contents(redactIntrospection(schema.introspection, schema, connection.accessPolicy));
         }
 
-        try {
-          const introspectionQuery = gql`
-            query IntrospectionQuery {
-              __schema {
-                types {
-                  name
-                  kind
-                  description
-                  fields {
-                    name
-                    type {
-                      name
-                      kind
-                    }
-                  }
-                }
-              }
-            }
-          `;
+        const table = requireTable(schema, target.table);
+        if (target.kind === "table" && target.view === "schema") {
+          return contents(describeTable(table));
+        }
 
-          const data = await this.graphqlClient.request(introspectionQuery);
-          
-          return {
-            contents: [
-              {
-                uri,
-                mimeType: "application/json",
-                text: JSON.stringify(data, null, 2),
+        const fields = allowedFieldNames(table, connection.accessPolicy);
+        if (target.kind === "table") {
+          const { query, variables } = buildPageQuery(table, fields, { page: 1, pageSize: SAMPLE_RECORD_COUNT });
+          const data = await connection.client.request(query, variables) as any;
+          return contents({ table: table.name, records: data[table.name] || [] });
+        }
+
+        if (!fields.includes("id")) {
+          throw new McpError(ErrorCode.InvalidRequest, `Table "${table.name}" has no id field to look records up by`);
+        }
+        const { query, variables } = buildPageQuery(table, fields, { filter: { id: target.id }, page: 1, pageSize: 1 });
+        const data = await connection.client.request(query, variables) as any;
+        const record = (data[table.name] || [])[0];
+        if (!record) {
+          throw baseqlError('NOT_FOUND', `Record "${target.id}" not found in table "${table.name}"`);
+        }
+        return contents(record);
+      } catch (error) {
+        throw this.toolError(error, `read ${uri}`, connection);
+      }
+    });
+
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      const prompts = await this.loadPrompts();
+      const endpointArg = this.endpoints.size > 1
+        ? [{ name: "endpoint", description: `BaseQL endpoint to use (default: "${this.endpoints.defaultName}")`, required: false }]
+        : [];
+
+      return {
+        prompts: prompts.map(prompt => ({
+          name: prompt.name,
+          description: prompt.description,
+          arguments: [...prompt.arguments, ...endpointArg],
+        })),
+      };
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args = {} } = request.params;
+
+      const prompts = await this.loadPrompts();
+      const prompt = prompts.find(candidate => candidate.name === name);
+      if (!prompt) {
+        throw baseqlError('NOT_FOUND', `Unknown prompt: ${name}.`, {
+          suggestions: closestMatches(name, prompts.map(candidate => candidate.name)),
+        });
+      }
+
+      const connection = this.endpoints.get(args.endpoint || undefined);
+      try {
+        const schema = await connection.schemaCache.get();
+        const tables = Array.from(schema.tables.values()).filter(table => isTableAllowed(table.name, connection.accessPolicy));
+
+        return {
+          description: prompt.description,
+          messages: [
+            {
+              role: "user" as const,
+              content: {
+                type: "text" as const,
+                text: renderPrompt(prompt, args, { schema, endpoint: connection.name, tables }),
               },
-            ],
-          };
-        } catch (error) {
-          throw new McpError(
-            ErrorCode.InternalError,
-            `Failed to fetch schema: ${error instanceof Error ? error.message : "Unknown error"}`
-          );
+            },
+          ],
+        };
+      } catch (error) {
+        throw this.toolError(error, `render prompt "${name}"`, connection);
+      }
+    });
+
+    // Complete table, field and endpoint names for prompt arguments and resource templates
+    server.setRequestHandler(CompleteRequestSchema, async (request) => {
+      const { ref, argument, context } = request.params;
+      const value = argument.value.toLowerCase();
+      let candidates: string[] = [];
+
+      // Resource templates carry the endpoint in the URI: baseql://<endpoint>/tables/{table}/...
+      const templateEndpoint = ref.type === "ref/resource" ? ref.uri.match(/^baseql:\/\/([A-Za-z0-9_-]+)\/tables\//)?.[1] : undefined;
+
+      try {
+        if (argument.name === "endpoint") {
+          candidates = this.endpoints.names;
+        } else if (["table", "fields", "field"].includes(argument.name)) {
+          const connection = this.endpoints.get(templateEndpoint || context?.arguments?.endpoint || undefined);
+          const schema = await connection.schemaCache.get();
+
+          if (argument.name === "table") {
+            candidates = Array.from(schema.tables.keys()).filter(table => isTableAllowed(table, connection.accessPolicy));
+          } else if (context?.arguments?.table && schema.tables.has(context.arguments.table)) {
+            candidates = schema.tables.get(context.arguments.table)!.fields.map(field => field.name);
+          }
         }
+      } catch {
+        // Completion is best-effort; an unreachable endpoint just offers nothing
       }
 
-      throw new McpError(ErrorCode.InvalidRequest, `Unknown resource: ${uri}`);
+      // For comma-separated lists, complete the last entry
+      const prefix = argument.name === "fields" ? value.slice(value.lastIndexOf(",") + 1).trim() : value;
+      const matches = candidates.filter(candidate => candidate.toLowerCase().startsWith(prefix));
+
+      return {
+        completion: {
+          values: matches.slice(0, 100),
+          total: matches.length,
+          hasMore: matches.length > 100,
+        },
+      };
     });
 
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
+      const namedQueryTools = Array.from(this.namedQueries.values()).map(query => ({
+        name: query.name,
+        description: query.description,
+        inputSchema: {
+          ...query.inputSchema,
+          properties: {
+            ...query.inputSchema.properties,
+            format: {
+              type: "string",
+              enum: OUTPUT_FORMATS,
+              description: FORMAT_DESCRIPTION,
+            },
+          },
+        },
+      }));
+
       return {
-        tools: [
-          {
-            name: "query",
-            description: "Execute custom GraphQL queries against your BaseQL endpoint. Use this for complex queries, joins across tables, or when other tools don't meet your needs. BaseQL uses Float (not Int) for numbers, _page_size/_page for pagination, and unquoted keys in filters like {email: \"test@example.com\"}.",
-            inputSchema: {
+        tools: [...this.builtInTools(), ...namedQueryTools].map(tool => this.withEndpointArg(tool)),
+      };
+    });
+
+    // Handles of truncated results are only good within the session they were returned in
+    const resultStore = new ResultStore();
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+      try {
+        return await this.callTool(name, args, resultStore);
+      } catch (error) {
+        // Errors raised before a tool's own handling (unknown endpoint, denied table, ...) get coded here
+        throw translateError(error, { action: `run ${name}` });
+      }
+    });
+  }
+
+  /**
+   * The tools this server always offers; named queries come on top.
+   */
+  private builtInTools() {
+    const tools = [
+      {
+        name: "query",
+        description: "Execute custom GraphQL queries against your BaseQL endpoint. Use this for complex queries, joins across tables, or when other tools don't meet your needs. The document is checked against the endpoint's schema before it is sent, and every problem is reported at once with its line and column. Mutations are rejected unless the server was started with writes enabled. Very large results are truncated to fit the response budget; use getResultPage with the returned handle for the rest. BaseQL uses Float (not Int) for numbers, _page_size/_page for pagination, and unquoted keys in filters like {email: \"test@example.com\"}.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            query: {
+              type: "string",
+              description: "GraphQL query string. Example: 'query { contacts(_page_size: 5, _filter: {type: \"Student\"}) { id firstName email } }'. Use _order_by for sorting: '_order_by: {lastName: \"asc\"}'. Access linked records: 'purchaser { id fullName }'.",
+            },
+            variables: {
               type: "object",
-              properties: {
-                query: {
-                  type: "string",
-                  description: "GraphQL query string. Example: 'query { contacts(_page_size: 5, _filter: {type: \"Student\"}) { id firstName email } }'. Use _order_by for sorting: '_order_by: {lastName: \"asc\"}'. Access linked records: 'purchaser { id fullName }'.",
-                },
-                variables: {
-                  type: "object",
-                  description: "GraphQL variables as key-value pairs. Example: {\"emailDomain\": \"umd.edu\"}",
-                },
-              },
-              required: ["query"],
+              description: "GraphQL variables as key-value pairs. Example: {\"emailDomain\": \"umd.edu\"}",
+            },
+            autofix: {
+              type: "boolean",
+              description: "Rewrite common BaseQL mistakes before running: Int variables become Float, limit becomes _page_size and uppercase _order_by directions become lowercase. The result's _autofix lists each rewrite (default: false)",
+            },
+            format: {
+              type: "string",
+              enum: OUTPUT_FORMATS,
+              description: FORMAT_DESCRIPTION,
             },
           },
-          {
-            name: "getTableSchema",
-            description: "Get detailed schema information for a specific table including field names, types, and relationships. Use this to understand table structure before querying or to identify available fields for filtering/sorting. Essential for building correct GraphQL queries.",
-            inputSchema: {
+          required: ["query"],
+        },
+      },
+      {
+        name: "getTableSchema",
+        description: "Get detailed schema information for a specific table including field names, types, and relationships. Use this to understand table structure before querying or to identify available fields for filtering/sorting. Essential for building correct GraphQL queries.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            tableName: {
+              type: "string",
+              description: "Name of the table to examine (use listTables first to see available tables)",
+            },
+          },
+          required: ["tableName"],
+        },
+      },
+      {
+        name: "listTables",
+        description: "List all available tables (data sources) in your BaseQL endpoint. Use this first to discover what data is available, then use getTableSchema to understand specific table structures. Returns table names and descriptions; when the server has several endpoints and none is given, tables are grouped by endpoint.",
+        inputSchema: {
+          type: "object",
+          properties: {},
+          additionalProperties: false
+        },
+      },
+      {
+        name: "queryTable",
+        description: "Query data from a table with advanced filtering, sorting, and pagination. Use this for most data retrieval needs. Any limit/offset window is fetched exactly, and pageInfo.nextCursor continues where the response stopped. Results too large for the response budget are truncated with a _truncated summary and a handle for getResultPage. More user-friendly than raw GraphQL queries. Filters support and/or/not, comparisons, ranges, lists and text matching; equality conditions run in BaseQL and the rest client-side (reported in filterPlan).",
+        inputSchema: {
+          type: "object",
+          properties: {
+            tableName: {
+              type: "string",
+              description: "Table name to query (use listTables to see options)",
+            },
+            fields: {
+              type: "array",
+              items: {
+                anyOf: [{ type: "string" }, { type: "object" }],
+              },
+              description: `Specific fields to return, e.g., ["id", "firstName", "email"]. Follow linked records with dotted paths, e.g., "purchaser.fullName", or nested selection objects with their own filter and limit, e.g., {"lineItems": {"fields": ["sku", "product.name"], "filter": {"qty": {"gt": 1}}, "limit": 5}} (up to ${MAX_SELECTION_DEPTH} levels). Omit to get all fields (slower).`,
+            },
+            filter: {
               type: "object",
-              properties: {
-                tableName: {
-                  type: "string",
-                  description: "Name of the table to examine (use listTables first to see available tables)",
+              description: FILTER_DESCRIPTION,
+            },
+            sort: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  field: {
+                    type: "string",
+                    description: "Field name to sort by",
+                  },
+                  direction: {
+                    type: "string",
+                    enum: ["asc", "desc"],
+                    description: "Sort direction: \"asc\" or \"desc\" (lowercase required)",
+                  },
                 },
+                required: ["field"],
               },
-              required: ["tableName"],
+              description: "Sort options, e.g., [{\"field\": \"lastName\", \"direction\": \"asc\"}]",
+            },
+            limit: {
+              type: "number",
+              description: `Maximum records to return (default: 10, max: ${this.maxRecords}). Limits above 100 are fetched across several BaseQL pages automatically.`,
+            },
+            offset: {
+              type: "number",
+              description: "Records to skip for pagination. Example: offset 20 with limit 10 gets records 21-30. Any offset works, not just multiples of limit.",
+            },
+            cursor: {
+              type: "string",
+              description: "Continuation cursor from a previous response's pageInfo.nextCursor. Fetches the next records after that response; overrides offset.",
+            },
+            format: {
+              type: "string",
+              enum: OUTPUT_FORMATS,
+              description: FORMAT_DESCRIPTION,
             },
           },
-          {
-            name: "listTables",
-            description: "List all available tables (data sources) in your BaseQL endpoint. Use this first to discover what data is available, then use getTableSchema to understand specific table structures. Returns table names and descriptions.",
-            inputSchema: {
+          required: ["tableName"],
+        },
+      },
+      {
+        name: "searchTable",
+        description: "Search for records containing a search term across several text fields at once (case-insensitive). Searches the specified fields or common text fields (firstName, lastName, fullName, email, name, title). Results are de-duplicated and ranked by which field matched and how closely. For exact matches on one field, use queryTable with filters instead.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            tableName: {
+              type: "string",
+              description: "The name of the table to search",
+            },
+            searchTerm: {
+              type: "string",
+              description: "The search term to look for in the specified fields",
+            },
+            fields: {
+              type: "array",
+              items: {
+                type: "string",
+              },
+              description: "Text fields to search, in priority order - matches in earlier fields rank higher. If not provided, searches common fields: firstName, lastName, fullName, email, name, title",
+            },
+            matchMode: {
+              type: "string",
+              enum: MATCH_MODES,
+              description: "How to match: \"contains\" (substring, default), \"prefix\" (value starts with the term), \"token\" (each word of the term starts a word in the value, e.g. \"jo smi\" finds \"John Smith\") or \"exact\"",
+            },
+            limit: {
+              type: "number",
+              description: "Maximum number of results to return (default: 10, max: 100)",
+            },
+            format: {
+              type: "string",
+              enum: OUTPUT_FORMATS,
+              description: FORMAT_DESCRIPTION,
+            },
+          },
+          required: ["tableName", "searchTerm"],
+        },
+      },
+      {
+        name: "getFieldOptions",
+        description: "Discover possible values for select fields (dropdowns) by analyzing existing data. Use this to see what values are actually being used in a field before filtering or to understand data patterns. Returns unique values with counts and percentages. Set exhaustive to count every record for exact numbers; options declared in the schema but unused are listed with a zero count.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            tableName: {
+              type: "string",
+              description: "Table containing the field to analyze",
+            },
+            fieldName: {
+              type: "string",
+              description: "Field to analyze (works best with select/dropdown fields like 'type', 'status', 'category')",
+            },
+            sampleSize: {
+              type: "number",
+              description: "Records to sample for analysis (default: 100, max: 100). Ignored when exhaustive is true.",
+            },
+            exhaustive: {
+              type: "boolean",
+              description: "Page through every record (up to the server's record limit) for exact counts instead of sampling (default: false). Use for large tables or rare values.",
+            },
+            filter: {
               type: "object",
-              properties: {},
-              additionalProperties: false
+              description: "Only analyze records matching these conditions, same format as queryTable, e.g., {\"year\": {\"gte\": 2024}}",
+            },
+            format: {
+              type: "string",
+              enum: OUTPUT_FORMATS,
+              description: FORMAT_DESCRIPTION,
             },
           },
-          {
-            name: "queryTable",
-            description: "Query data from a table with advanced filtering, sorting, and pagination. Use this for most data retrieval needs. More user-friendly than raw GraphQL queries. Supports exact matches only (no partial matching - use searchTable for that).",
-            inputSchema: {
+          required: ["tableName", "fieldName"],
+        },
+      },
+      {
+        name: "aggregateTable",
+        description: "Compute counts, sums, averages, minimums and maximums over a whole table, optionally grouped by fields and filtered. Use this instead of pulling raw rows to answer questions like \"how many purchases per status\" or \"total revenue by product\". Pages through every matching record server-side and returns a compact result table.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            tableName: {
+              type: "string",
+              description: "Table to aggregate (use listTables to see options)",
+            },
+            filter: {
               type: "object",
-              properties: {
-                tableName: {
-                  type: "string",
-                  description: "Table name to query (use listTables to see options)",
-                },
-                fields: {
-                  type: "array",
-                  items: {
+              description: "Filter conditions, same format as queryTable, e.g., {\"status\": \"completed\", \"amount\": {\"gt\": 0}}",
+            },
+            groupBy: {
+              type: "array",
+              items: {
+                type: "string",
+              },
+              description: "Fields to group by, e.g., [\"status\"]. Multi-select values count once per selected option. Omit for a single total row.",
+            },
+            aggregates: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  op: {
                     type: "string",
+                    enum: AGGREGATE_OPS,
+                    description: "Aggregate function",
                   },
-                  description: "Specific fields to return, e.g., [\"id\", \"firstName\", \"email\"]. Omit to get all fields (slower).",
-                },
-                filter: {
-                  type: "object",
-                  description: "Filter conditions as key-value pairs, e.g., {\"type\": \"Student\", \"email\": \"user@umd.edu\"}. Only exact matches supported. For linked records, filter by ID: {\"purchaser\": [\"rec123xyz\"]}.",
-                },
-                sort: {
-                  type: "array",
-                  items: {
-                    type: "object",
-                    properties: {
-                      field: {
-                        type: "string",
-                        description: "Field name to sort by",
-                      },
-                      direction: {
-                        type: "string",
-                        enum: ["asc", "desc"],
-                        description: "Sort direction: \"asc\" or \"desc\" (lowercase required)",
-                      },
-                    },
-                    required: ["field"],
+                  field: {
+                    type: "string",
+                    description: "Field to aggregate. Required for sum/avg/min/max; for count, counts non-empty values (omit to count records)",
+                  },
+                  as: {
+                    type: "string",
+                    description: "Output column name (default: op_field)",
                   },
-                  description: "Sort options, e.g., [{\"field\": \"lastName\", \"direction\": \"asc\"}]",
-                },
-                limit: {
-                  type: "number",
-                  description: "Maximum records to return (default: 10, max: 100)",
-                },
-                offset: {
-                  type: "number",
-                  description: "Records to skip for pagination. Example: offset 20 with limit 10 gets records 21-30.",
                 },
+                required: ["op"],
               },
-              required: ["tableName"],
+              description: "Aggregate expressions, e.g., [{\"op\": \"count\"}, {\"op\": \"sum\", \"field\": \"amount\"}]. Defaults to a record count.",
+            },
+            format: {
+              type: "string",
+              enum: OUTPUT_FORMATS,
+              description: FORMAT_DESCRIPTION,
             },
           },
-          {
-            name: "searchTable",
-            description: "Search for records in a table by filtering specific fields. Use this to find records containing a search term. Note: BaseQL doesn't support full-text search, so this filters specified fields or common text fields (firstName, lastName, email, name). For exact matches, use queryTable with filters instead.",
-            inputSchema: {
+          required: ["tableName"],
+        },
+      },
+      {
+        name: "refreshSchema",
+        description: "Reload the cached schema from your BaseQL endpoint. The schema is cached and refreshed automatically every few minutes; use this right after adding tables or fields in Airtable or Google Sheets.",
+        inputSchema: {
+          type: "object",
+          properties: {},
+          additionalProperties: false
+        },
+      },
+      {
+        name: "clearCache",
+        description: "Drop cached query results so the next calls read fresh data from BaseQL. Results of queryTable, searchTable, getFieldOptions, aggregateTable and query are cached briefly (see _cache in their results) and cleared automatically after writes made through this server; use this after the data was changed elsewhere.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            all: {
+              type: "boolean",
+              description: "Clear every endpoint's cache instead of only the selected endpoint's (default: false)",
+              default: false,
+            },
+          },
+          additionalProperties: false
+        },
+      },
+      {
+        name: "exportTable",
+        description: "Export every matching record of a table to a CSV, JSON or NDJSON file on the server's disk, for handing full results to a person instead of pasting them into the chat. Takes the same fields, filter and sort options as queryTable and pages through the whole table. Returns the file path, row count and SHA-256 checksum.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            tableName: {
+              type: "string",
+              description: "Table to export (use listTables to see options)",
+            },
+            fields: {
+              type: "array",
+              items: {
+                anyOf: [{ type: "string" }, { type: "object" }],
+              },
+              description: "Fields to export, same format as queryTable, e.g., [\"id\", \"fullName\", \"company.name\"]. Omit to export every field; linked records export their IDs.",
+            },
+            filter: {
               type: "object",
-              properties: {
-                tableName: {
-                  type: "string",
-                  description: "The name of the table to search",
-                },
-                searchTerm: {
-                  type: "string",
-                  description: "The search term to look for in the specified fields",
-                },
-                fields: {
-                  type: "array",
-                  items: {
+              description: FILTER_DESCRIPTION,
+            },
+            sort: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  field: {
                     type: "string",
+                    description: "Field name to sort by",
+                  },
+                  direction: {
+                    type: "string",
+                    enum: ["asc", "desc"],
+                    description: "Sort direction: \"asc\" or \"desc\" (lowercase required)",
                   },
-                  description: "Specific fields to search in (required). If not provided, searches common fields: firstName, lastName, email, name",
-                },
-                limit: {
-                  type: "number",
-                  description: "Maximum number of results to return (default: 10, max: 100)",
                 },
+                required: ["field"],
               },
-              required: ["tableName", "searchTerm"],
+              description: "Sort options, e.g., [{\"field\": \"lastName\", \"direction\": \"asc\"}]",
+            },
+            fileFormat: {
+              type: "string",
+              enum: EXPORT_FORMATS,
+              description: "File format: \"csv\" (default; linked records and lists are flattened into columns such as \"company.name\"), \"json\" (an array of records) or \"ndjson\" (one record per line)",
+            },
+            fileName: {
+              type: "string",
+              description: "Name of the file to create in the export directory (default: <table>-<timestamp>.<format>). Existing files are never overwritten.",
+            },
+            limit: {
+              type: "number",
+              description: "Stop after this many records (default: no limit)",
             },
           },
-          {
-            name: "getFieldOptions",
-            description: "Discover possible values for select fields (dropdowns) by analyzing existing data. Use this to see what values are actually being used in a field before filtering or to understand data patterns. Returns unique values with counts. Note: Only shows values currently in use - empty options won't appear.",
-            inputSchema: {
-              type: "object",
-              properties: {
-                tableName: {
-                  type: "string",
-                  description: "Table containing the field to analyze",
-                },
-                fieldName: {
-                  type: "string",
-                  description: "Field to analyze (works best with select/dropdown fields like 'type', 'status', 'category')",
-                },
-                sampleSize: {
-                  type: "number",
-                  description: "Records to sample for analysis (default: 100, max: 100). Larger samples give more complete results.",
-                },
+          required: ["tableName"],
+        },
+      },
+      {
+        name: "getResultPage",
+        description: "Page through a result that was too large to return in full. Results over the server's response budget come back with some rows, long text cut to previews and a _truncated summary (row counts, omitted fields, per-field stats) whose handle and nextOffset you pass here. Stored results expire after 15 minutes without use.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            handle: {
+              type: "string",
+              description: "The _truncated.handle of the truncated result",
+            },
+            list: {
+              type: "string",
+              description: "Which record list to page through, for raw queries that returned several (default: the first)",
+            },
+            offset: {
+              type: "number",
+              description: "Row to start from, e.g. _truncated.lists.<list>.nextOffset (default: 0)",
+            },
+            limit: {
+              type: "number",
+              description: "Maximum rows to return (default: as many as fit in the response budget)",
+            },
+            fields: {
+              type: "array",
+              items: {
+                type: "string",
               },
-              required: ["tableName", "fieldName"],
+              description: "Only return these fields, e.g. to read a long text field that was cut to a preview",
+            },
+            format: {
+              type: "string",
+              enum: OUTPUT_FORMATS,
+              description: FORMAT_DESCRIPTION,
             },
           },
-        ],
-      };
-    });
+          required: ["handle"],
+        },
+      },
+      {
+        name: "createRecord",
+        description: "Create a new record in a table using the insert mutation BaseQL exposes for it. Field names and value types are checked against the table schema before anything is written. Returns the created record. Requires the server to be started with writes enabled.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            tableName: {
+              type: "string",
+              description: "Table to create the record in (use listTables to see options)",
+            },
+            fields: {
+              type: "object",
+              description: "Field values for the new record, e.g., {\"firstName\": \"Ada\", \"type\": \"Student\"}. Numbers are Float; linked records take arrays of record IDs: {\"team\": [\"rec123xyz\"]}.",
+            },
+          },
+          required: ["tableName", "fields"],
+        },
+      },
+      {
+        name: "updateRecord",
+        description: "Update fields on an existing record using the update mutation BaseQL exposes for the table. Only the fields provided are changed. Use this to change status fields, assignments, etc. Returns the updated record.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            tableName: {
+              type: "string",
+              description: "Table containing the record",
+            },
+            id: {
+              type: "string",
+              description: "ID of the record to update, e.g., \"rec123xyz\"",
+            },
+            fields: {
+              type: "object",
+              description: "Fields to change, e.g., {\"status\": \"Resolved\"}",
+            },
+          },
+          required: ["tableName", "id", "fields"],
+        },
+      },
+      {
+        name: "deleteRecord",
+        description: "Delete a record by ID using the delete mutation BaseQL exposes for the table. This cannot be undone - confirm the record with queryTable first.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            tableName: {
+              type: "string",
+              description: "Table containing the record",
+            },
+            id: {
+              type: "string",
+              description: "ID of the record to delete, e.g., \"rec123xyz\"",
+            },
+          },
+          required: ["tableName", "id"],
+        },
+      },
+    ];
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
+    return tools;
+  }
 
-      if (!this.graphqlClient) {
-        throw new McpError(
-          ErrorCode.InvalidRequest,
-          "BaseQL endpoint not configured. Please set BASEQL_API_ENDPOINT and BASEQL_API_KEY environment variables."
-        );
-      }
+  /**
+   * Names of the configured endpoints, the default first.
+   */
+  async endpointNames(): Promise<string[]> {
+    await this.initialize();
+    const names = this.endpoints.names;
+    return [this.endpoints.defaultName, ...names.filter(name => name !== this.endpoints.defaultName)];
+  }
 
-      switch (name) {
-        case "query": {
-          const { query, variables } = args as { query: string; variables?: Record<string, any> };
-          
-          try {
-            const data = await this.graphqlClient.request(query, variables);
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(data, null, 2),
-                },
-              ],
-            };
-          } catch (error) {
-            throw new McpError(
-              ErrorCode.InternalError,
-              `GraphQL query failed: ${error instanceof Error ? error.message : "Unknown error"}`
+  /**
+   * The cached schema of an endpoint, for completion in the REPL.
+   */
+  async getSchema(endpoint?: string): Promise<SchemaModel> {
+    await this.initialize();
+    return this.endpoints.get(endpoint).schemaCache.get();
+  }
+
+  /**
+   * Run a tool outside an MCP session, as the CLI commands do. Returns the tool's text content.
+   */
+  async runTool(name: string, args: Record<string, unknown> = {}): Promise<TextContent[]> {
+    await this.initialize();
+    try {
+      const result = await this.callTool(name, args, this.resultStore);
+      return result.content;
+    } catch (error) {
+      throw translateError(error, { action: `run ${name}` });
+    }
+  }
+
+  /**
+   * Run a tool. Failures are translated into coded errors (see errors.ts). Truncated results are
+   * kept in `resultStore` for getResultPage.
+   */
+  private async callTool(name: string, args: Record<string, unknown> | undefined, resultStore: ResultStore): Promise<{ content: TextContent[] }> {
+
+    // Every tool runs against the endpoint it names, or the default one
+    const connection = this.endpoints.get(args?.endpoint);
+    const client = connection.client;
+
+    // Read tools go through the response cache; `_cache` in the result says whether it answered
+    const cached = this.responseCache.forCall(connection.name, client, name);
+    // Results are rendered in the requested format; `rows` says where a result keeps its records
+    const format = args?.format ?? this.defaultFormat;
+    if (!isOutputFormat(format)) {
+      throw baseqlError('INVALID_ARGUMENT', `Unknown format "${String(format)}".`, {
+        suggestions: closestMatches(String(format), [...OUTPUT_FORMATS]),
+        hint: `Use one of: ${OUTPUT_FORMATS.join(', ')}.`,
+      });
+    }
+    // `tables` are the tables the records come from, checked again when a truncated result is paged
+    const respond = (data: unknown, options: { rows?: RowsLocation; cacheInfo?: CacheInfo; tables?: string[] } = {}) => {
+      const cacheInfo = options.cacheInfo ?? cached.info();
+      const result = cacheInfo && data && typeof data === "object" && !Array.isArray(data) ? { ...data, _cache: cacheInfo } : data;
+      const tables = options.tables ?? (typeof args?.tableName === 'string' ? [args.tableName] : []);
+      return { content: this.renderResult(result, format, options.rows, { resultStore, endpoint: connection.name, tables }) };
+    };
+
+    // Enforce the table allow/deny lists for every tool that targets a table
+    if (typeof args?.tableName === 'string') {
+      assertTableAccess(args.tableName, connection.accessPolicy);
+    }
+
+    switch (name) {
+      case "query": {
+        const { variables, autofix } = args as { variables?: Record<string, any>; autofix?: boolean };
+        let { query } = args as { query: string };
+
+        if (!query || typeof query !== 'string') {
+          throw new McpError(ErrorCode.InvalidRequest, "query is required and must be a string");
+        }
+        // The schema lets the access check follow linked records into other tables
+        const schema = await connection.schemaCache.get().catch(() => undefined);
+        let document = assertQueryAllowed(query, connection.accessPolicy, schema, variables);
+
+        // Check the document locally first, so every mistake comes back at once instead of one
+        // remote error per attempt. Without a usable schema, BaseQL's own validation still applies.
+        let fixes: QueryFix[] = [];
+        if (schema?.schema) {
+          const fixed = autofixDocument(document, schema.schema);
+          if (autofix === true && fixed.fixes.length > 0) {
+            fixes = fixed.fixes;
+            document = fixed.document;
+            query = print(document);
+          }
+
+          const problems = validationErrors(document, schema.schema);
+          if (problems.length > 0) {
+            const hint = fixes.length > 0
+              ? `Autofix rewrote ${fixes.map(describeFix).join(', ')}; the remaining problems need changes to the query.`
+              : autofix !== true && fixed.fixes.length > 0
+                ? `Pass autofix: true to rewrite ${fixed.fixes.map(describeFix).join(', ')}.`
+                : hintForGraphQLMessage(problems.join(' '));
+            throw baseqlError(
+              'GRAPHQL_ERROR',
+              `Query does not match the "${connection.name}" schema (${problems.length} error${problems.length > 1 ? 's' : ''}): ${problems.map((problem, i) => `${i + 1}) ${problem}`).join('; ')}.`,
+              { hint }
             );
           }
         }
 
-        case "getTableSchema": {
-          const { tableName } = args as { tableName: string };
-          
-          try {
-            // Validation
-            if (!tableName || typeof tableName !== 'string') {
-              throw new McpError(ErrorCode.InvalidRequest, "tableName is required and must be a string. Use listTables to see available table names.");
+        const isMutation = document.definitions.some(
+          definition => definition.kind === Kind.OPERATION_DEFINITION && definition.operation === "mutation"
+        );
+        // Rewrites are reported next to the data so the caller can fix its query for next time
+        const withFixes = (data: any) => (fixes.length > 0 ? { ...data, _autofix: { query, changes: fixes } } : data);
+        const tables = schema ? queryTables(document, schema) : [];
+
+        try {
+          if (isMutation) {
+            try {
+              return respond(withFixes(await client.request(query, variables)), { rows: { rootLists: true }, tables });
+            } finally {
+              await this.responseCache.invalidate(connection.name);
             }
-            const query = gql`
-              query GetTableSchema {
-                __type(name: "${tableName}") {
-                  name
-                  description
-                  fields {
-                    name
-                    description
-                    type {
-                      name
-                      kind
-                      ofType {
-                        name
-                        kind
-                      }
-                    }
-                  }
-                }
-              }
-            `;
-            
-            const data = await this.graphqlClient.request(query);
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(data, null, 2),
-                },
-              ],
-            };
-          } catch (error) {
-            throw new McpError(
-              ErrorCode.InternalError,
-              `Failed to get table schema: ${error instanceof Error ? error.message : "Unknown error"}`
-            );
           }
+          return respond(withFixes(await cached.request(query, variables)), { rows: { rootLists: true }, tables });
+        } catch (error) {
+          throw this.toolError(error, "run GraphQL query", connection);
         }
+      }
 
-        case "listTables": {
-          try {
-            const query = gql`
-              query ListTables {
-                __schema {
-                  types {
-                    name
-                    kind
-                    description
-                  }
-                }
-              }
-            `;
-            
-            const data = await this.graphqlClient.request(query) as any;
-            
-            // Filter for object types that are likely tables (excluding system types)
-            const tables = data.__schema.types
-              .filter((type: any) => 
-                type.kind === "OBJECT" && 
-                !type.name.startsWith("__") &&
-                !["Query", "Mutation", "Subscription"].includes(type.name)
-              )
-              .map((type: any) => ({
-                name: type.name,
-                description: type.description || "No description available",
-              }));
-            
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(tables, null, 2),
-                },
-              ],
-            };
-          } catch (error) {
-            throw new McpError(
-              ErrorCode.InternalError,
-              `Failed to list tables: ${error instanceof Error ? error.message : "Unknown error"}`
-            );
+      case "getTableSchema": {
+        const { tableName } = args as { tableName: string };
+        
+        try {
+          // Validation
+          if (!tableName || typeof tableName !== 'string') {
+            throw new McpError(ErrorCode.InvalidRequest, "tableName is required and must be a string. Use listTables to see available table names.");
           }
+          const startedAt = Date.now();
+          const schema = await connection.schemaCache.get();
+          const table = requireTable(schema, tableName);
+
+          const data = describeTable(table);
+
+          // The schema cache answers this tool, so report its age and TTL
+          return respond(data, { cacheInfo: {
+            hit: schema.fetchedAt.getTime() < startedAt,
+            hits: schema.fetchedAt.getTime() < startedAt ? 1 : 0,
+            misses: schema.fetchedAt.getTime() < startedAt ? 0 : 1,
+            ageSeconds: Math.round((Date.now() - schema.fetchedAt.getTime()) / 1000),
+            ttlSeconds: this.schemaTtl,
+          } });
+        } catch (error) {
+          throw this.toolError(error, "get table schema", connection);
         }
+      }
 
-        case "queryTable": {
-          const { tableName, fields, filter, sort, limit, offset } = args as {
-            tableName: string;
-            fields?: string[];
-            filter?: Record<string, any>;
-            sort?: Array<{ field: string; direction?: "asc" | "desc" }>;
-            limit?: number;
-            offset?: number;
+      case "listTables": {
+        try {
+          const listEndpointTables = async (endpoint: typeof connection) => {
+            const schema = await endpoint.schemaCache.get();
+            return Array.from(schema.tables.values())
+              .filter(table => isTableAllowed(table.name, endpoint.accessPolicy))
+              .map(table => ({
+                name: table.name,
+                description: table.description || "No description available",
+              }));
           };
 
-          try {
-            // Validation
-            if (!tableName || typeof tableName !== 'string') {
-              throw new McpError(ErrorCode.InvalidRequest, "tableName is required and must be a string");
-            }
+          // With several endpoints and none named, group every endpoint's tables
+          const data = this.endpoints.size > 1 && args?.endpoint === undefined
+            ? await Promise.all(this.endpoints.list().map(async endpoint => ({
+                endpoint: endpoint.name,
+                description: endpoint.description,
+                default: endpoint.name === this.endpoints.defaultName,
+                tables: await listEndpointTables(endpoint),
+              })))
+            : await listEndpointTables(connection);
+          
+          return respond(data);
+        } catch (error) {
+          throw this.toolError(error, "list tables", connection);
+        }
+      }
 
-            if (limit !== undefined && (limit <= 0 || limit > 100)) {
-              throw new McpError(ErrorCode.InvalidRequest, "limit must be between 1 and 100 (BaseQL maximum)");
-            }
+      case "queryTable": {
+        const { tableName, fields, filter, sort, limit = 10, cursor } = args as {
+          tableName: string;
+          fields?: FieldSpec[];
+          filter?: Record<string, any>;
+          sort?: Array<{ field: string; direction?: "asc" | "desc" }>;
+          limit?: number;
+          offset?: number;
+          cursor?: string;
+        };
+        let { offset = 0 } = args as { offset?: number };
 
-            if (offset !== undefined && offset < 0) {
-              throw new McpError(ErrorCode.InvalidRequest, "offset must be 0 or positive");
-            }
+        try {
+          // Validation
+          if (!tableName || typeof tableName !== 'string') {
+            throw new McpError(ErrorCode.InvalidRequest, "tableName is required and must be a string");
+          }
 
-            // Validate sort directions
-            if (sort && sort.length > 0) {
-              for (const sortItem of sort) {
-                if (sortItem.direction && !["asc", "desc"].includes(sortItem.direction)) {
-                  throw new McpError(
-                    ErrorCode.InvalidRequest, 
-                    `Invalid sort direction "${sortItem.direction}". Use "asc" or "desc" (lowercase)`
-                  );
-                }
-              }
-            }
-            // Build the fields selection
-            const fieldsSelection = fields && fields.length > 0 
-              ? fields.join("\n    ")
-              : "id\n    __typename";
+          if (!Number.isInteger(limit) || limit <= 0 || limit > this.maxRecords) {
+            throw new McpError(ErrorCode.InvalidRequest, `limit must be an integer between 1 and ${this.maxRecords}`);
+          }
 
-            // Build arguments for BaseQL
-            const args: string[] = [];
-            
-            if (filter && Object.keys(filter).length > 0) {
-              // Convert filter object to GraphQL format (unquoted keys)
-              const filterStr = JSON.stringify(filter).replace(/"([^"]+)":/g, '$1:');
-              args.push(`_filter: ${filterStr}`);
-            }
+          if (cursor !== undefined) {
+            offset = decodeCursor(cursor, tableName);
+          }
 
-            if (sort && sort.length > 0) {
-              // BaseQL uses _order_by format with lowercase direction
-              const orderBy = sort.reduce((acc, s) => {
-                acc[s.field] = s.direction || "asc";
-                return acc;
-              }, {} as Record<string, string>);
-              // Convert to GraphQL format (unquoted keys)
-              const orderByStr = JSON.stringify(orderBy).replace(/"([^"]+)":/g, '$1:');
-              args.push(`_order_by: ${orderByStr}`);
-            }
+          if (!Number.isInteger(offset) || offset < 0) {
+            throw new McpError(ErrorCode.InvalidRequest, "offset must be 0 or a positive integer");
+          }
 
-            if (limit !== undefined) {
-              args.push(`_page_size: ${limit}`);
-            }
-            
-            if (offset !== undefined) {
-              // Convert offset to page number
-              const pageSize = limit || 100;
-              const page = Math.floor(offset / pageSize) + 1;
-              args.push(`_page: ${page}`);
+          // Validate sort directions
+          if (sort && sort.length > 0) {
+            for (const sortItem of sort) {
+              if (sortItem.direction && !["asc", "desc"].includes(sortItem.direction)) {
+                throw new McpError(
+                  ErrorCode.InvalidRequest, 
+                  `Invalid sort direction "${sortItem.direction}". Use "asc" or "desc" (lowercase)`
+                );
+              }
             }
+          }
+          // Split the filter into what BaseQL evaluates natively and what runs client-side
+          const plan = planFilter(filter);
+          const schema = await connection.schemaCache.get();
+          const table = requireTable(schema, tableName);
+          assertFilterFields(plan, tableName, table.fields.map(field => field.name));
 
-            const argsString = args.length > 0 ? `(${args.join(', ')})` : '';
+          // Resolve the fields selection, including paths through linked records
+          const selection: FieldSpec[] = fields && fields.length > 0 ? fields : ["id", "__typename"];
+          const requested = parseSelection(schema, table, selection, connection.accessPolicy);
+          const extraFields = plan.residualFields.filter(field => !requested.nodes.has(field));
+          const tree = extraFields.length > 0 ? parseSelection(schema, table, [...selection, ...extraFields], connection.accessPolicy) : requested;
 
-            const query = gql`
-              query QueryTable {
-                ${tableName}${argsString} {
-                  ${fieldsSelection}
-                }
-              }
-            `;
+          const fetchPage = async (page: number, pageSize: number) => {
+            const { query, variables } = buildPageQuery(table, tree, { filter: plan.pushed, sort, page, pageSize });
+            const data = await cached.request(query, variables) as any;
+            return shapeRecords(data[tableName] || [], tree);
+          };
 
-            const data = await this.graphqlClient.request(query);
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(data, null, 2),
-                },
-              ],
+          let window: RecordWindow<any>;
+          let scanInfo: { recordsScanned: number; scanComplete: boolean } | undefined;
+
+          if (!plan.residual) {
+            window = await fetchRecordWindow(fetchPage, { offset, limit });
+          } else {
+            // Client-side conditions need every candidate record before the window can be cut
+            const scan = await fetchAllRecords(fetchPage, { maxRecords: this.maxRecords });
+            const matched = applyResidualFilter(scan.records, plan);
+            window = {
+              records: matched.slice(offset, offset + limit).map(record => {
+                const trimmed = { ...record };
+                extraFields.forEach(field => delete trimmed[field]);
+                return trimmed;
+              }),
+              offset,
+              limit,
+              // Records past the scan limit were never checked, so more may match
+              hasMore: matched.length > offset + limit || !scan.complete,
+              pagesFetched: scan.pagesFetched,
             };
-          } catch (error) {
-            if (error instanceof McpError) {
-              throw error;
-            }
-            
-            let errorMessage = error instanceof Error ? error.message : "Unknown error";
-            
-            // Provide specific guidance for common BaseQL errors
-            if (errorMessage.includes("Unknown type Int")) {
-              errorMessage += ". BaseQL uses Float instead of Int for numbers.";
-            } else if (errorMessage.includes("Unknown argument")) {
-              errorMessage += ". BaseQL uses _filter, _page_size, _page, _order_by instead of standard GraphQL arguments.";
-            } else if (errorMessage.includes("Cannot query field")) {
-              errorMessage += ". Field may not exist - use getTableSchema to see available fields.";
-            }
-            
-            throw new McpError(ErrorCode.InternalError, `Failed to query table: ${errorMessage}`);
+            scanInfo = { recordsScanned: scan.records.length, scanComplete: scan.complete };
           }
-        }
 
-        case "searchTable": {
-          const { tableName, searchTerm, fields, limit = 10 } = args as {
-            tableName: string;
-            searchTerm: string;
-            fields?: string[];
-            limit?: number;
+          const nestedSelection = describeNestedSelection(tree);
+          const result = {
+            [tableName]: window.records,
+            pageInfo: {
+              offset: window.offset,
+              limit: window.limit,
+              returned: window.records.length,
+              hasMore: window.hasMore,
+              nextCursor: window.hasMore ? encodeCursor(tableName, offset + window.records.length) : null,
+              pagesFetched: window.pagesFetched,
+            },
+            filterPlan: filter && Object.keys(filter).length > 0
+              ? {
+                  ...describeFilterPlan(plan),
+                  ...scanInfo,
+                  note: scanInfo && !scanInfo.scanComplete
+                    ? `Client-side conditions were checked against the first ${scanInfo.recordsScanned} records only (server limit). Add equality conditions BaseQL can apply to narrow the scan.`
+                    : undefined,
+                }
+              : undefined,
+            linkedRecords: Object.keys(nestedSelection).length > 0 ? nestedSelection : undefined,
           };
 
-          try {
-            // Get table schema first to understand available fields
-            const schemaQuery = gql`
-              query GetTableSchema {
-                __type(name: "${tableName}") {
-                  fields {
-                    name
-                    type {
-                      name
-                      kind
-                    }
-                  }
-                }
-              }
-            `;
-            
-            const schemaData = await this.graphqlClient.request(schemaQuery) as any;
-            const tableFields = schemaData.__type?.fields || [];
-            
-            // Determine which fields to search
-            let fieldsToSearch: string[] = [];
-            
-            if (fields && fields.length > 0) {
-              // Use specified fields, but validate they exist
-              fieldsToSearch = fields.filter(field => 
-                tableFields.some((f: any) => f.name === field && f.type.kind === "SCALAR" && f.type.name === "String")
-              );
-            } else {
-              // Use common text fields that exist in the table
-              const commonFields = ["firstName", "lastName", "fullName", "email", "name", "title"];
-              fieldsToSearch = commonFields.filter(field => 
-                tableFields.some((f: any) => f.name === field && f.type.kind === "SCALAR" && f.type.name === "String")
-              );
-            }
+          return respond(result, { rows: { key: tableName } });
+        } catch (error) {
+          throw this.toolError(error, "query table", connection);
+        }
+      }
 
-            if (fieldsToSearch.length === 0) {
-              throw new McpError(
-                ErrorCode.InvalidRequest,
-                `No searchable text fields found in table "${tableName}". Please specify valid string fields to search.`
-              );
-            }
+      case "searchTable": {
+        const { tableName, searchTerm, fields, matchMode = "contains", limit = 10 } = args as {
+          tableName: string;
+          searchTerm: string;
+          fields?: string[];
+          matchMode?: MatchMode;
+          limit?: number;
+        };
 
-            // Build search query - BaseQL doesn't support OR, so we'll try the first field
-            // In a real implementation, you might need multiple queries
-            const searchField = fieldsToSearch[0];
-            const searchFilter = { [searchField]: searchTerm };
+        try {
+          // Validation
+          if (!searchTerm || typeof searchTerm !== 'string') {
+            throw new McpError(ErrorCode.InvalidRequest, "searchTerm is required and must be a non-empty string");
+          }
 
-            const args: string[] = [];
-            const filterStr = JSON.stringify(searchFilter).replace(/"([^"]+)":/g, '$1:');
-            args.push(`_filter: ${filterStr}`);
-            
-            const limitedSize = Math.min(limit, 100); // BaseQL max is 100
-            args.push(`_page_size: ${limitedSize}`);
+          if (!MATCH_MODES.includes(matchMode)) {
+            throw new McpError(ErrorCode.InvalidRequest, `Invalid matchMode "${matchMode}". Use one of: ${MATCH_MODES.join(", ")}`);
+          }
 
-            const argsString = args.length > 0 ? `(${args.join(', ')})` : '';
+          if (!Number.isInteger(limit) || limit <= 0 || limit > 100) {
+            throw new McpError(ErrorCode.InvalidRequest, "limit must be an integer between 1 and 100");
+          }
 
-            // Get all string fields for the result
-            const resultFields = fieldsToSearch.slice(0, 10).join('\n    '); // Limit to avoid overly long queries
+          // Get table schema first to understand available fields
+          const schema = await connection.schemaCache.get();
+          const table = requireTable(schema, tableName);
+          const tableFields = table.fields;
+          const isTextField = (name: string) =>
+            tableFields.some(f => f.name === name && f.scalarKind === "string");
 
-            const query = gql`
-              query SearchTable {
-                ${tableName}${argsString} {
-                  id
-                  ${resultFields}
-                }
-              }
-            `;
+          // Determine which fields to search
+          let fieldsToSearch: string[] = [];
+          let ignoredFields: string[] = [];
 
-            const data = await this.graphqlClient.request(query);
-            
-            const results = {
-              searchTerm,
-              fieldsSearched: fieldsToSearch,
-              primarySearchField: searchField,
-              limit: limitedSize,
-              note: `Searched for "${searchTerm}" in ${fieldsToSearch.join(", ")}. BaseQL limitations: exact matches only, searched primary field "${searchField}".`,
-              results: data
-            };
+          if (fields && fields.length > 0) {
+            // Use specified fields, but validate they exist
+            fieldsToSearch = Array.from(new Set(fields.filter(isTextField)));
+            ignoredFields = fields.filter(field => !isTextField(field));
+          } else {
+            // Use common text fields that exist in the table
+            const commonFields = ["firstName", "lastName", "fullName", "email", "name", "title"];
+            fieldsToSearch = commonFields.filter(isTextField);
+          }
 
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(results, null, 2),
-                },
-              ],
-            };
-          } catch (error) {
-            if (error instanceof McpError) {
-              throw error;
-            }
+          if (fieldsToSearch.length === 0) {
             throw new McpError(
-              ErrorCode.InternalError,
-              `Failed to search table: ${error instanceof Error ? error.message : "Unknown error"}`
+              ErrorCode.InvalidRequest,
+              `No searchable text fields found in table "${tableName}". Please specify valid string fields to search.`
             );
           }
+
+          // BaseQL filters only support exact matches, so scan the table and match client-side
+          const hasId = tableFields.some(f => f.name === "id");
+          const selection = hasId ? ["id", ...fieldsToSearch.filter(f => f !== "id")] : fieldsToSearch;
+
+          const fetchPage = async (page: number, pageSize: number) => {
+            const { query, variables } = buildPageQuery(table, selection, { page, pageSize });
+            const data = await cached.request(query, variables) as any;
+            return (data[tableName] || []) as Record<string, any>[];
+          };
+
+          const scan = await fetchAllRecords(fetchPage, { maxRecords: this.maxRecords });
+          const hits = searchRecords(scan.records, fieldsToSearch, searchTerm, matchMode);
+
+          const results = {
+            searchTerm,
+            matchMode,
+            fieldsSearched: fieldsToSearch,
+            ignoredFields: ignoredFields.length > 0 ? ignoredFields : undefined,
+            recordsScanned: scan.records.length,
+            scanComplete: scan.complete,
+            totalMatches: hits.length,
+            returned: Math.min(hits.length, limit),
+            note: scan.complete
+              ? undefined
+              : `Only the first ${scan.records.length} records were scanned (server limit). Narrow the search with queryTable filters if the record you need is missing.`,
+            results: hits.slice(0, limit).map(hit => ({
+              ...hit.record,
+              _matchedFields: hit.matches.map(match => `${match.field} (${match.type})`),
+            })),
+          };
+
+          return respond(results, { rows: { key: "results" } });
+        } catch (error) {
+          throw this.toolError(error, "search table", connection);
         }
+      }
+
+      case "getFieldOptions": {
+        const { tableName, fieldName, sampleSize = 100, exhaustive = false, filter } = args as {
+          tableName: string;
+          fieldName: string;
+          sampleSize?: number;
+          exhaustive?: boolean;
+          filter?: Record<string, any>;
+        };
+
+        try {
+          // Validation
+          if (!tableName || typeof tableName !== 'string') {
+            throw new McpError(ErrorCode.InvalidRequest, "tableName is required and must be a string");
+          }
+          
+          if (!fieldName || typeof fieldName !== 'string') {
+            throw new McpError(ErrorCode.InvalidRequest, "fieldName is required and must be a string");
+          }
+          
+          if (!exhaustive && sampleSize && (sampleSize <= 0 || sampleSize > 100)) {
+            throw new McpError(ErrorCode.InvalidRequest, "sampleSize must be between 1 and 100 (BaseQL maximum). Use exhaustive: true to analyze every record.");
+          }
+          const schema = await connection.schemaCache.get();
+          const table = requireTable(schema, tableName);
+          const field = table.fields.find(f => f.name === fieldName);
+          if (!field) {
+            throw unknownFieldError(fieldName, tableName, table.fields.map(f => f.name));
+          }
 
-        case "getFieldOptions": {
-          const { tableName, fieldName, sampleSize = 100 } = args as {
-            tableName: string;
-            fieldName: string;
-            sampleSize?: number;
+          const plan = planFilter(filter);
+          assertFilterFields(plan, tableName, table.fields.map(f => f.name));
+
+          const selection = Array.from(new Set([fieldName, ...plan.residualFields]));
+          const fetchPage = async (page: number, pageSize: number) => {
+            const { query, variables } = buildPageQuery(table, selection, { filter: plan.pushed, page, pageSize });
+            const data = await client.request(query, variables) as any;
+            return (data[tableName] || []) as Record<string, any>[];
           };
 
-          try {
-            // Validation
-            if (!tableName || typeof tableName !== 'string') {
-              throw new McpError(ErrorCode.InvalidRequest, "tableName is required and must be a string");
-            }
-            
-            if (!fieldName || typeof fieldName !== 'string') {
-              throw new McpError(ErrorCode.InvalidRequest, "fieldName is required and must be a string");
-            }
-            
-            if (sampleSize && (sampleSize <= 0 || sampleSize > 100)) {
-              throw new McpError(ErrorCode.InvalidRequest, "sampleSize must be between 1 and 100 (BaseQL maximum)");
-            }
-            // BaseQL limits page size to 100
-            const limitedSampleSize = Math.min(sampleSize, 100);
-
-            // Query the table for a sample of records
-            const query = gql`
-              query GetFieldOptions {
-                ${tableName}(_page_size: ${limitedSampleSize}) {
-                  ${fieldName}
-                }
+          const analyze = async () => {
+            let records: Record<string, any>[] = [];
+            let recordsScanned = 0;
+            let complete = true;
+
+            if (exhaustive) {
+              const scan = await fetchAllRecords(fetchPage, { maxRecords: this.maxScanRecords });
+              records = applyResidualFilter(scan.records, plan);
+              recordsScanned = scan.records.length;
+              complete = scan.complete;
+            } else {
+              // Client-side conditions can reject most of a page, so pages are read until the sample
+              // is full, the table ends or the scan limit is reached
+              const pageSize = plan.residual ? BASEQL_MAX_PAGE_SIZE : Math.min(sampleSize, BASEQL_MAX_PAGE_SIZE);
+              let page = 1;
+              let reachedEnd = false;
+              while (records.length < sampleSize && !reachedEnd && recordsScanned < this.maxScanRecords) {
+                const pageRecords = await fetchPage(page, pageSize);
+                recordsScanned += pageRecords.length;
+                reachedEnd = pageRecords.length < pageSize;
+                records.push(...applyResidualFilter(pageRecords, plan));
+                page++;
               }
-            `;
+              records = records.slice(0, sampleSize);
+              complete = reachedEnd;
+            }
 
-            const data = await this.graphqlClient.request(query) as any;
-            const records = data[tableName];
+            // Options declared in the schema (enum fields) are listed even when unused
+            const declaredValues = field.enumValues || [];
 
-            if (!records || records.length === 0) {
+            if (records.length === 0 && declaredValues.length === 0) {
               return {
-                content: [
-                  {
-                    type: "text",
-                    text: JSON.stringify({
-                      tableName,
-                      fieldName,
-                      sampleSize: 0,
-                      totalUnique: 0,
-                      values: [],
-                      note: "No records found in table"
-                    }, null, 2),
-                  },
-                ],
+                tableName,
+                fieldName,
+                sampleSize: 0,
+                recordsScanned,
+                totalUnique: 0,
+                values: [],
+                note: !filter
+                  ? "No records found in table"
+                  : complete ? "No records match the filter" : `None of the first ${recordsScanned} records scanned match the filter (server limit)`
               };
             }
 
@@ -692,8 +1499,8 @@ export class BaseQLMCPServer {
 
             for (const record of records) {
               const value = record[fieldName];
-              
-              if (value === null || value === undefined) {
+            
+              if (value === null || value === undefined || (Array.isArray(value) && value.length === 0)) {
                 nullCount++;
               } else if (Array.isArray(value)) {
                 // Handle multi-select fields
@@ -708,52 +1515,487 @@ export class BaseQLMCPServer {
               }
             }
 
+            const percentage = (count: number) =>
+              records.length > 0 ? Math.round((count / records.length) * 1000) / 10 : 0;
+
             // Sort by count (descending) and create result array
-            const sortedValues = Array.from(valueCounts.entries())
-              .sort((a, b) => b[1] - a[1])
-              .map(([value, count]) => ({ value, count }));
+            const sortedValues: Array<{ value: string; count: number; percentage: number; unused?: boolean }> =
+              Array.from(valueCounts.entries())
+                .sort((a, b) => b[1] - a[1])
+                .map(([value, count]) => ({ value, count, percentage: percentage(count) }));
 
-            const result = {
+            const unusedValues = declaredValues.filter(value => !valueCounts.has(value));
+            for (const value of unusedValues) {
+              sortedValues.push({ value, count: 0, percentage: 0, unused: true });
+            }
+
+            const notes: string[] = [];
+            if (!exhaustive) {
+              notes.push(plan.residual
+                ? `Values sampled from the first ${records.length} matching records out of ${recordsScanned} scanned; counts are not exact. Use exhaustive: true for exact counts.`
+                : `Values sampled from the first ${records.length} records; counts are not exact. Use exhaustive: true for exact counts.`);
+              if (records.length < sampleSize && !complete) {
+                notes.push(`The scan stopped at ${recordsScanned} records (server limit) before ${sampleSize} matches were found.`);
+              }
+            } else if (!complete) {
+              notes.push(`Only the first ${records.length} records were counted (server limit). Add a filter or raise --max-scan-records for exact counts.`);
+            } else {
+              notes.push("Exact counts across all matching records.");
+            }
+            if (declaredValues.length > 0) {
+              notes.push("Options declared in the schema but not used by any analyzed record are listed with count 0 and unused: true.");
+            } else {
+              notes.push("Some options may not appear if they are not currently used in any records.");
+            }
+
+            return {
               tableName,
               fieldName,
+              exhaustive,
+              complete: exhaustive ? complete : undefined,
+              filterPlan: filter && Object.keys(filter).length > 0 ? describeFilterPlan(plan) : undefined,
               sampleSize: records.length,
-              totalUnique: sortedValues.length,
+              recordsScanned,
+              totalUnique: valueCounts.size,
               nullCount,
+              nullPercentage: percentage(nullCount),
               values: sortedValues,
-              isMultiSelect: records.some((r: any) => Array.isArray(r[fieldName])),
-              note: "Values discovered from existing data. Some options may not appear if they are not currently used in any records."
+              declaredValues: declaredValues.length > 0 ? declaredValues : undefined,
+              isMultiSelect: field.isList || records.some((r: any) => Array.isArray(r[fieldName])),
+              note: notes.join(" ")
             };
+          };
+
+          // Exhaustive counts and filtered samples may read many pages; those go straight to BaseQL and
+          // only the result is cached, so a scan does not push other responses out of the cache
+          const inputs = { tableName, fieldName, filter, exhaustive, sampleSize, maxScanRecords: this.maxScanRecords };
+          const result = await cached.result("getFieldOptions", inputs, analyze);
+
+          return respond(result, { rows: { key: "values" } });
+        } catch (error) {
+          throw this.toolError(error, "get field options", connection);
+        }
+      }
+
+      case "aggregateTable": {
+        const { tableName, filter, groupBy = [], aggregates = [{ op: "count" }] } = args as {
+          tableName: string;
+          filter?: Record<string, any>;
+          groupBy?: string[];
+          aggregates?: AggregateSpec[];
+        };
+
+        try {
+          // Validation
+          if (!tableName || typeof tableName !== 'string') {
+            throw new McpError(ErrorCode.InvalidRequest, "tableName is required and must be a string");
+          }
+
+          if (!Array.isArray(groupBy) || !Array.isArray(aggregates) || aggregates.length === 0) {
+            throw new McpError(ErrorCode.InvalidRequest, "groupBy must be an array of field names and aggregates a non-empty array");
+          }
+
+          const schema = await connection.schemaCache.get();
+          const table = requireTable(schema, tableName);
+          const fieldInfo = (name: string) => table.fields.find(field => field.name === name);
+
+          for (const field of groupBy) {
+            const info = fieldInfo(field);
+            if (!info) {
+              throw unknownFieldError(field, tableName, table.fields.map(f => f.name), `Cannot group by "${field}": field not found`);
+            }
+            if (!info.scalarKind) {
+              throw new McpError(ErrorCode.InvalidRequest, `Cannot group by "${field}": only scalar and select fields can be grouped`);
+            }
+          }
+
+          for (const spec of aggregates) {
+            if (!AGGREGATE_OPS.includes(spec.op)) {
+              throw new McpError(ErrorCode.InvalidRequest, `Invalid aggregate op "${spec.op}". Use one of: ${AGGREGATE_OPS.join(", ")}`);
+            }
+            if (!spec.field) {
+              if (spec.op !== "count") {
+                throw new McpError(ErrorCode.InvalidRequest, `Aggregate "${spec.op}" requires a field`);
+              }
+              continue;
+            }
+            const info = fieldInfo(spec.field);
+            if (!info) {
+              throw unknownFieldError(spec.field, tableName, table.fields.map(f => f.name), `Cannot aggregate "${spec.field}": field not found`);
+            }
+            if (!info.scalarKind) {
+              throw new McpError(ErrorCode.InvalidRequest, `Cannot aggregate "${spec.field}": only scalar fields can be aggregated`);
+            }
+            if ((spec.op === "sum" || spec.op === "avg") && info.scalarKind !== "number") {
+              throw new McpError(ErrorCode.InvalidRequest, `Cannot ${spec.op} "${spec.field}": it is not a number field`);
+            }
+          }
+
+          const plan = planFilter(filter);
+          assertFilterFields(plan, tableName, table.fields.map(field => field.name));
+
+          const selection = Array.from(new Set([
+            ...groupBy,
+            ...aggregates.filter(spec => spec.field).map(spec => spec.field!),
+            ...plan.residualFields,
+          ]));
+          if (selection.length === 0) {
+            selection.push(fieldInfo("id") ? "id" : "__typename");
+          }
+
+          // Scan pages go straight to BaseQL and only the aggregated result is cached, so a full-table
+          // scan does not push other responses out of the cache
+          const fetchPage = async (page: number, pageSize: number) => {
+            const { query, variables } = buildPageQuery(table, selection, { filter: plan.pushed, page, pageSize });
+            const data = await client.request(query, variables) as any;
+            return (data[tableName] || []) as Record<string, any>[];
+          };
+
+          const inputs = { tableName, filter, groupBy, aggregates, maxScanRecords: this.maxScanRecords };
+          const result = await cached.result("aggregateTable", inputs, async () => {
+            const scan = await fetchAllRecords(fetchPage, { maxRecords: this.maxScanRecords });
+            const matched = applyResidualFilter(scan.records, plan);
+            const rows = aggregateRecords(matched, groupBy, aggregates);
 
             return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(result, null, 2),
-                },
-              ],
+              tableName,
+              groupBy,
+              aggregates: aggregates.map(aggregateAlias),
+              recordsScanned: scan.records.length,
+              recordsMatched: matched.length,
+              complete: scan.complete,
+              filterPlan: filter && Object.keys(filter).length > 0 ? describeFilterPlan(plan) : undefined,
+              note: scan.complete
+                ? undefined
+                : `Only the first ${scan.records.length} records were scanned (server limit). Add a filter or raise --max-scan-records for exact totals.`,
+              groups: rows.length,
+              rows,
             };
-          } catch (error) {
-            throw new McpError(
-              ErrorCode.InternalError,
-              `Failed to get field options: ${error instanceof Error ? error.message : "Unknown error"}`
-            );
+          });
+
+          return respond(result, { rows: { key: "rows" } });
+        } catch (error) {
+          throw this.toolError(error, "aggregate table", connection);
+        }
+      }
+
+      case "refreshSchema": {
+        try {
+          const schema = await connection.schemaCache.refresh();
+          // Cached responses may use fields that changed along with the schema
+          const cacheEntriesCleared = await this.responseCache.invalidate(connection.name);
+
+          const result = {
+            endpoint: connection.name,
+            refreshedAt: schema.fetchedAt.toISOString(),
+            ttlSeconds: this.schemaTtl,
+            tableCount: schema.tables.size,
+            mutationCount: schema.mutations.length,
+            cacheEntriesCleared,
+          };
+
+          return respond(result);
+        } catch (error) {
+          throw this.toolError(error, "refresh schema", connection);
+        }
+      }
+
+      case "clearCache": {
+        const { all = false } = args as { all?: boolean };
+
+        try {
+          const cleared = await this.responseCache.invalidate(all ? undefined : connection.name);
+
+          const result = {
+            endpoint: all ? undefined : connection.name,
+            scope: all ? "all endpoints" : "endpoint",
+            entriesCleared: cleared,
+            entriesRemaining: this.responseCache.size,
+          };
+
+          return respond(result);
+        } catch (error) {
+          throw this.toolError(error, "clear cache", connection);
+        }
+      }
+
+      case "exportTable": {
+        const { tableName, fields, filter, sort, fileFormat = "csv", fileName, limit } = args as {
+          tableName: string;
+          fields?: FieldSpec[];
+          filter?: Record<string, any>;
+          sort?: Array<{ field: string; direction?: "asc" | "desc" }>;
+          fileFormat?: ExportFormat;
+          fileName?: string;
+          limit?: number;
+        };
+
+        let writer: ExportWriter | undefined;
+        try {
+          // Validation
+          if (!tableName || typeof tableName !== 'string') {
+            throw new McpError(ErrorCode.InvalidRequest, "tableName is required and must be a string");
+          }
+          if (!isExportFormat(fileFormat)) {
+            throw new McpError(ErrorCode.InvalidRequest, `Invalid fileFormat "${fileFormat}". Use one of: ${EXPORT_FORMATS.join(", ")}`);
           }
+          if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+            throw new McpError(ErrorCode.InvalidRequest, "limit must be a positive integer");
+          }
+          for (const sortItem of sort || []) {
+            if (sortItem.direction && !["asc", "desc"].includes(sortItem.direction)) {
+              throw new McpError(
+                ErrorCode.InvalidRequest,
+                `Invalid sort direction "${sortItem.direction}". Use "asc" or "desc" (lowercase)`
+              );
+            }
+          }
+          const targetName = exportFileName(tableName, fileFormat, fileName);
+
+          const plan = planFilter(filter);
+          const schema = await connection.schemaCache.get();
+          const table = requireTable(schema, tableName);
+          assertFilterFields(plan, tableName, table.fields.map(field => field.name));
+
+          // By default every field, except links into tables the access policy excludes
+          const selection: FieldSpec[] = fields && fields.length > 0
+            ? fields
+            : allowedFieldNames(table, connection.accessPolicy);
+          const requested = parseSelection(schema, table, selection, connection.accessPolicy);
+          const extraFields = plan.residualFields.filter(field => !requested.nodes.has(field));
+          const tree = extraFields.length > 0 ? parseSelection(schema, table, [...selection, ...extraFields], connection.accessPolicy) : requested;
+
+          writer = await ExportWriter.open(this.exportDir, targetName, fileFormat, selectionColumns(requested));
+
+          // Pages go straight to the file, bypassing the response cache, so exports are not capped by --max-records
+          let page = 1;
+          let scanned = 0;
+          let reachedEnd = false;
+          let written = 0;
+          let stoppedAtLimit = false;
+          while (!reachedEnd && !stoppedAtLimit) {
+            const { query, variables } = buildPageQuery(table, tree, { filter: plan.pushed, sort, page, pageSize: BASEQL_MAX_PAGE_SIZE });
+            const data = await client.request(query, variables) as any;
+            const records = shapeRecords(data[tableName] || [], tree);
+            scanned += records.length;
+            reachedEnd = records.length < BASEQL_MAX_PAGE_SIZE;
+            page++;
+
+            let matched = applyResidualFilter(records, plan);
+            if (limit !== undefined && written + matched.length >= limit) {
+              stoppedAtLimit = written + matched.length > limit || !reachedEnd;
+              matched = matched.slice(0, limit - written);
+            }
+            matched = matched.map(record => {
+              const trimmed = { ...record };
+              extraFields.forEach(field => delete trimmed[field]);
+              return trimmed;
+            });
+            await writer.write(matched);
+            written += matched.length;
+          }
+
+          const file = await writer.finish();
+          const result = {
+            tableName,
+            endpoint: connection.name,
+            ...file,
+            complete: reachedEnd && !stoppedAtLimit,
+            pagesFetched: page - 1,
+            recordsScanned: scanned,
+            filterPlan: filter && Object.keys(filter).length > 0 ? describeFilterPlan(plan) : undefined,
+          };
+
+          return respond(result);
+        } catch (error) {
+          await writer?.abort();
+          throw this.toolError(error, "export table", connection);
+        }
+      }
+
+      case "getResultPage": {
+        const { handle, list, offset = 0, limit, fields } = args as {
+          handle: string;
+          list?: string;
+          offset?: number;
+          limit?: number;
+          fields?: string[];
+        };
+
+        if (!handle || typeof handle !== 'string') {
+          throw new McpError(ErrorCode.InvalidRequest, "handle is required: pass _truncated.handle from a truncated result");
+        }
+        if (!Number.isInteger(offset) || offset < 0) {
+          throw new McpError(ErrorCode.InvalidRequest, "offset must be a non-negative integer");
+        }
+        if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+          throw new McpError(ErrorCode.InvalidRequest, "limit must be a positive integer");
         }
 
-        default:
+        const stored = resultStore.get(handle);
+        if (!stored) {
+          throw baseqlError('NOT_FOUND', `Result "${handle}" not found.`, {
+            hint: `Stored results expire ${STORED_RESULT_TTL_SECONDS / 60} minutes after their last use; run the original query again.`,
+          });
+        }
+        // A handle is read under the same endpoint and access lists as the call that produced it
+        if (stored.endpoint !== connection.name) {
+          throw baseqlError('INVALID_ARGUMENT', `Result "${handle}" came from endpoint "${stored.endpoint}", not "${connection.name}".`, {
+            hint: `Pass endpoint "${stored.endpoint}" to page through it.`,
+          });
+        }
+        stored.tables.forEach(table => assertTableAccess(table, connection.accessPolicy));
+        const listNames = Object.keys(stored.lists);
+        const listName = list ?? listNames[0];
+        const records = stored.lists[listName];
+        if (!records) {
+          throw baseqlError('NOT_FOUND', `Result "${handle}" has no list "${listName}".`, {
+            suggestions: closestMatches(listName, listNames),
+            hint: `Its lists are: ${listNames.join(', ')}.`,
+          });
+        }
+
+        const availableFields = Array.from(new Set(records.flatMap(record => Object.keys(record))));
+        for (const field of fields || []) {
+          if (!availableFields.includes(field)) {
+            throw unknownFieldError(field, listName, availableFields);
+          }
+        }
+
+        const page = records
+          .slice(offset, limit ? offset + limit : undefined)
+          .map(record => fields ? Object.fromEntries(fields.map(field => [field, record[field]])) : record);
+        const data = { handle, list: listName, [listName]: page };
+        const rows = { key: listName };
+
+        // Pages are held to the same budget; the stored result is reused rather than stored again
+        const truncated = this.maxResponseTokens > 0
+          ? fitToBudget(data, [listName], {
+              maxTokens: this.maxResponseTokens,
+              measure: candidate => contentLength(formatResult(candidate, format, rows)),
+              handle,
+              positions: { [listName]: { offset, total: records.length } },
+            })
+          : null;
+        const returned = truncated ? truncated._truncated.lists[listName].returnedRows : page.length;
+
+        const result = {
+          ...(truncated ?? data),
+          pageInfo: {
+            offset,
+            returned,
+            total: records.length,
+            nextOffset: offset + returned < records.length ? offset + returned : null,
+          },
+        };
+
+        return { content: formatResult(result, format, rows) };
+      }
+
+      case "createRecord":
+      case "updateRecord":
+      case "deleteRecord": {
+        const { tableName, id, fields } = args as {
+          tableName: string;
+          id?: string;
+          fields?: Record<string, any>;
+        };
+        const kind = name === "createRecord" ? "create" : name === "updateRecord" ? "update" : "delete";
+        assertWritesAllowed(connection.accessPolicy);
+
+        try {
+          // Validation
+          if (!tableName || typeof tableName !== 'string') {
+            throw new McpError(ErrorCode.InvalidRequest, "tableName is required and must be a string. Use listTables to see available table names.");
+          }
+
+          if (kind !== "delete" && (!fields || typeof fields !== 'object' || Array.isArray(fields))) {
+            throw new McpError(ErrorCode.InvalidRequest, "fields is required and must be an object of field names to values");
+          }
+
+          const mutations = discoverTableMutations(await connection.schemaCache.get(), tableName);
+          // Setting a linked-record field writes a reference into its table, so that table must be permitted too
+          for (const field of mutations.tableFields) {
+            if (field.linkedTable && fields?.[field.name] !== undefined) {
+              assertTableAccess(field.linkedTable, connection.accessPolicy);
+            }
+          }
+          const mutation = requireMutation(mutations, kind);
+          const { query, variables } = buildRecordMutation(mutations, mutation, { id, fields });
+
+          let data: any;
+          try {
+            data = await client.request(query, variables);
+          } finally {
+            // Even a failed write may have landed, so cached reads of this endpoint are dropped either way
+            await this.responseCache.invalidate(connection.name);
+          }
+
+          const result = {
+            tableName,
+            operation: kind,
+            mutation: mutation.name,
+            record: data[mutation.name],
+          };
+
+          return respond(result);
+        } catch (error) {
+          throw this.toolError(error, `${kind} record`, connection);
+        }
+      }
+
+      default: {
+        const namedQuery = this.namedQueries.get(name);
+        if (!namedQuery) {
           throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+        }
+
+        const missing = (namedQuery.inputSchema.required || []).filter(variable => args?.[variable] === undefined);
+        if (missing.length > 0) {
+          throw baseqlError('INVALID_ARGUMENT', `Named query "${name}" requires ${missing.map(variable => `"${variable}"`).join(', ')}.`, {
+            hint: `Pass ${missing.length > 1 ? 'them as tool arguments' : 'it as a tool argument'}; see the tool's input schema for types.`,
+          });
+        }
+        const variables = Object.fromEntries(
+          Object.keys(namedQuery.inputSchema.properties)
+            .filter(variable => args?.[variable] !== undefined)
+            .map(variable => [variable, args![variable]])
+        );
+
+        // Loading only checked the query against the default endpoint's schema
+        if (connection.name !== this.endpoints.defaultName) {
+          const schema = await connection.schemaCache.get().catch(() => undefined);
+          const problems = schema?.schema ? validateNamedQuery(namedQuery, schema.schema) : [];
+          if (problems.length > 0) {
+            throw baseqlError(
+              'GRAPHQL_ERROR',
+              `Named query "${name}" does not match the "${connection.name}" schema: ${problems.map((problem, i) => `${i + 1}) ${problem}`).join('; ')}.`,
+              { hint: `It was checked against "${this.endpoints.defaultName}" when loaded from ${namedQuery.source}; run it there or pass an endpoint with the same tables.` }
+            );
+          }
+        }
+
+        // Runs exactly as the query tool would: same access checks, cache and error handling
+        return this.callTool("query", { endpoint: args?.endpoint, format, query: namedQuery.query, variables }, resultStore);
       }
-    });
+    }
   }
 
   async start() {
+    await this.initialize();
+    this.watchNamedQueries();
+
     if (this.transport === 'stdio') {
       const transport = new StdioServerTransport();
-      await this.server.connect(transport);
+      await this.createServer().connect(transport);
       console.error("BaseQL MCP server running on stdio");
     } else {
-      // HTTP transport would be implemented here
-      throw new Error('HTTP transport not yet implemented');
+      const { url } = await startHttpTransport(() => this.createServer(), {
+        host: this.host,
+        port: this.port,
+        version: packageJson.version,
+      });
+      console.error(`BaseQL MCP server running on ${url}`);
     }
   }
 }
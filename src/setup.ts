@@ -4,9 +4,40 @@ import ora from 'ora';
 import fs from 'fs/promises';
 import path from 'path';
 import os from 'os';
-import { GraphQLClient } from 'graphql-request';
+import { BaseQLClient, requestPolicyFromEnv } from './request-client.js';
 import { validateEndpoint, validateApiKey } from './validators.js';
 import { getClaudeConfigPath, updateClaudeConfig } from './config-manager.js';
+import { DEFAULT_CREDENTIAL_NAME, hasCredentialsPassphrase, openCredentialStore } from './credentials.js';
+
+interface Credentials {
+  endpoint: string;
+  apiKey: string;
+}
+
+/**
+ * How MCP clients should launch the server: with the API key in the environment, or with
+ * only the name of a stored credential.
+ */
+interface LaunchConfig {
+  args: string[];
+  env: Record<string, string>;
+}
+
+function launchConfig(credentials: Credentials, credentialName?: string): LaunchConfig {
+  if (credentialName) {
+    return {
+      args: ['-y', '@baseql/mcp-server', 'serve', '--use-keychain'],
+      env: { BASEQL_CREDENTIAL: credentialName }
+    };
+  }
+  return {
+    args: ['-y', '@baseql/mcp-server', 'serve'],
+    env: {
+      BASEQL_API_ENDPOINT: credentials.endpoint,
+      BASEQL_API_KEY: credentials.apiKey
+    }
+  };
+}
 
 export async function setupWizard() {
   console.clear();
@@ -55,7 +86,46 @@ export async function setupWizard() {
   
   spinner.succeed('Connection successful!');
   
-  // Step 4: Configure installation
+  // Step 4: Choose where the API key is kept
+  const store = await openCredentialStore();
+  // Without a passphrase the file's key sits next to it, so the file is obfuscated, not protected
+  const obfuscatedOnly = store.backend === 'encrypted-file' && !hasCredentialsPassphrase();
+  const { storage } = await inquirer.prompt({
+    type: 'list',
+    name: 'storage',
+    message: 'Where should the API key be stored?',
+    choices: [
+      {
+        name: store.backend === 'keychain'
+          ? `🔐 ${store.location} (Recommended)`
+          : obfuscatedOnly
+            ? `🔒 Obfuscated file ${store.location} (no system keychain found - set BASEQL_CREDENTIALS_PASSPHRASE to encrypt it)`
+            : `🔐 Encrypted file ${store.location} (Recommended - no system keychain found)`,
+        value: 'store'
+      },
+      { name: '📄 Plain text in the client configuration and .env', value: 'plain' }
+    ]
+  });
+
+  let credentialName: string | undefined;
+  if (storage === 'store') {
+    ({ credentialName } = await inquirer.prompt({
+      type: 'input',
+      name: 'credentialName',
+      message: 'Name for this credential:',
+      default: DEFAULT_CREDENTIAL_NAME,
+      validate: (input: string) => /^[A-Za-z0-9_-]+$/.test(input) || 'Use letters, digits, "-" and "_"'
+    }));
+    await store.set(credentialName!, credentials);
+    console.log(chalk.green(`✅ Saved credential "${credentialName}" to ${store.location}`));
+    if (obfuscatedOnly) {
+      console.log(chalk.yellow('⚠️  BASEQL_CREDENTIALS_PASSPHRASE is not set, so the key is stored beside the file: anyone who can read one can read the other.'));
+      console.log(chalk.gray('   Set a passphrase and run setup again to encrypt the credential.\n'));
+    }
+  }
+  const launch = launchConfig(credentials, credentialName);
+  
+  // Step 5: Configure installation
   const { installType } = await inquirer.prompt({
     type: 'list',
     name: 'installType',
@@ -67,43 +137,41 @@ export async function setupWizard() {
     ]
   });
   
-  // Step 5: Save configuration option
+  // Step 6: Save configuration option
   const { saveEnv } = await inquirer.prompt({
     type: 'confirm',
     name: 'saveEnv',
-    message: 'Save credentials to .env file for local development?',
+    message: credentialName
+      ? 'Save the credential reference to .env file for local development?'
+      : 'Save credentials to .env file for local development?',
     default: true
   });
   
   if (saveEnv) {
-    await saveEnvFile(credentials);
+    await saveEnvFile(launch);
   }
   
-  // Step 6: Install based on choice
+  // Step 7: Install based on choice
   switch (installType) {
     case 'claude':
-      await installForClaude(credentials);
+      await installForClaude(launch);
       break;
     case 'vscode':
-      await installForVSCode(credentials);
+      await installForVSCode(launch);
       break;
     case 'manual':
-      await showManualInstructions(credentials);
+      await showManualInstructions(launch);
       break;
   }
   
-  // Step 7: Show success message and next steps
+  // Step 8: Show success message and next steps
   console.log(chalk.green.bold('\n✅ Installation complete!\n'));
   showNextSteps(installType);
 }
 
-async function testConnection(credentials: { endpoint: string; apiKey: string }): Promise<boolean> {
+async function testConnection(credentials: Credentials): Promise<boolean> {
   try {
-    const client = new GraphQLClient(credentials.endpoint, {
-      headers: {
-        Authorization: credentials.apiKey
-      }
-    });
+    const client = new BaseQLClient(credentials.endpoint, credentials.apiKey, requestPolicyFromEnv());
     
     // Try a simple introspection query
     const query = `{ __schema { queryType { name } } }`;
@@ -114,10 +182,12 @@ async function testConnection(credentials: { endpoint: string; apiKey: string })
   }
 }
 
-async function saveEnvFile(credentials: { endpoint: string; apiKey: string }) {
+async function saveEnvFile(launch: LaunchConfig) {
+  const env: Record<string, string> = launch.args.includes('--use-keychain')
+    ? { BASEQL_USE_KEYCHAIN: 'true', ...launch.env }
+    : launch.env;
   const envContent = `# BaseQL MCP Server Configuration
-BASEQL_API_ENDPOINT=${credentials.endpoint}
-BASEQL_API_KEY=${credentials.apiKey}
+${Object.entries(env).map(([key, value]) => `${key}=${value}`).join('\n')}
 `;
   
   try {
@@ -139,13 +209,13 @@ BASEQL_API_KEY=${credentials.apiKey}
     
     // Write new .env
     await fs.writeFile(envPath, envContent);
-    console.log(chalk.green('✅ Saved credentials to .env file'));
+    console.log(chalk.green('✅ Saved configuration to .env file'));
   } catch (error) {
     console.log(chalk.yellow('⚠️  Could not save .env file'));
   }
 }
 
-async function installForClaude(credentials: { endpoint: string; apiKey: string }) {
+async function installForClaude(launch: LaunchConfig) {
   try {
     const configPath = getClaudeConfigPath();
     
@@ -162,11 +232,8 @@ async function installForClaude(credentials: { endpoint: string; apiKey: string
     config.mcpServers = config.mcpServers || {};
     config.mcpServers.baseql = {
       command: 'npx',
-      args: ['-y', '@baseql/mcp-server', 'serve'],
-      env: {
-        BASEQL_API_ENDPOINT: credentials.endpoint,
-        BASEQL_API_KEY: credentials.apiKey
-      }
+      args: launch.args,
+      env: launch.env
     };
     
     // Backup existing config
@@ -184,20 +251,17 @@ async function installForClaude(credentials: { endpoint: string; apiKey: string
   } catch (error: any) {
     console.log(chalk.red('❌ Failed to update Claude Desktop configuration'));
     console.log(chalk.gray(error.message));
-    await showManualInstructions(credentials);
+    await showManualInstructions(launch);
   }
 }
 
-async function installForVSCode(credentials: { endpoint: string; apiKey: string }) {
+async function installForVSCode(launch: LaunchConfig) {
   const config = {
     "baseql": {
       "type": "stdio",
       "command": "npx",
-      "args": ["-y", "@baseql/mcp-server", "serve"],
-      "env": {
-        "BASEQL_API_ENDPOINT": credentials.endpoint,
-        "BASEQL_API_KEY": credentials.apiKey
-      }
+      "args": launch.args,
+      "env": launch.env
     }
   };
   
@@ -221,7 +285,7 @@ async function installForVSCode(credentials: { endpoint: string; apiKey: string
   }
 }
 
-async function showManualInstructions(credentials: { endpoint: string; apiKey: string }) {
+async function showManualInstructions(launch: LaunchConfig) {
   console.log(chalk.blue('\n📋 Manual Configuration Instructions:\n'));
   
   console.log(chalk.yellow('For Claude Desktop:'));
@@ -230,20 +294,18 @@ async function showManualInstructions(credentials: { endpoint: string; apiKey: s
     "mcpServers": {
       "baseql": {
         "command": "npx",
-        "args": ["-y", "@baseql/mcp-server", "serve"],
-        "env": {
-          "BASEQL_API_ENDPOINT": credentials.endpoint,
-          "BASEQL_API_KEY": credentials.apiKey
-        }
+        "args": launch.args,
+        "env": launch.env
       }
     }
   }, null, 2)));
   
   console.log(chalk.yellow('\nFor local development:'));
   console.log('Run with environment variables:');
-  console.log(chalk.gray(`BASEQL_API_ENDPOINT="${credentials.endpoint}" \\`));
-  console.log(chalk.gray(`BASEQL_API_KEY="${credentials.apiKey}" \\`));
-  console.log(chalk.gray('npx @baseql/mcp-server serve'));
+  Object.entries(launch.env).forEach(([key, value]) => {
+    console.log(chalk.gray(`${key}="${value}" \\`));
+  });
+  console.log(chalk.gray(`npx ${launch.args.slice(1).join(' ')}`));
 }
 
 function showNextSteps(installType: string) {
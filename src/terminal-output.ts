@@ -0,0 +1,38 @@
+import { toCsv, toTextTable } from './formatters.js';
+
+/** How the CLI and REPL print tool results */
+export const PRINT_FORMATS = ['pretty', 'table', 'csv'];
+
+// Tool errors carry the JSON-RPC prefix, which means nothing on a terminal
+export function errorMessage(error: any): string {
+  return String(error?.message ?? error).replace(/^MCP error -?\d+: /, '');
+}
+
+/**
+ * Record lists of a raw GraphQL result: every root field holding a list.
+ */
+export function queryResultLists(data: Record<string, unknown>): Record<string, any[]> {
+  return Object.fromEntries(
+    Object.entries(data).filter(([, value]) => Array.isArray(value)) as Array<[string, any[]]>
+  );
+}
+
+/**
+ * Print a tool result. `lists` are the record lists to show as a table or CSV; anything else
+ * is printed as JSON.
+ */
+export function printResult(data: any, output: string, lists: Record<string, any[]>): void {
+  const entries = Object.entries(lists).filter(([, records]) => Array.isArray(records));
+  if (output === 'pretty' || entries.length === 0) {
+    console.log(JSON.stringify(data, null, 2));
+    return;
+  }
+
+  entries.forEach(([name, records], i) => {
+    // Name each block when there are several, e.g. a query selecting two tables
+    if (entries.length > 1) {
+      console.log(`${i > 0 ? '\n' : ''}${output === 'csv' ? '# ' : ''}${name}`);
+    }
+    console.log(output === 'csv' ? toCsv(records) : toTextTable(records));
+  });
+}
@@ -1,4 +1,4 @@
-import { GraphQLClient } from 'graphql-request';
+import { BaseQLClient, requestPolicyFromEnv } from './request-client.js';
 import chalk from 'chalk';
 import ora from 'ora';
 import fs from 'fs/promises';
@@ -7,6 +7,7 @@ import os from 'os';
 import dotenv from 'dotenv';
 import { ConfigSchema } from './validators.js';
 import { getClaudeConfigPath } from './config-manager.js';
+import { DEFAULT_CREDENTIAL_NAME, loadCredential } from './credentials.js';
 
 // Load environment variables
 dotenv.config();
@@ -40,11 +41,7 @@ export async function validateConfig(): Promise<boolean> {
   // Step 3: Test API connection
   const spinner = ora('Testing API connection...').start();
   try {
-    const client = new GraphQLClient(config.endpoint, {
-      headers: {
-        Authorization: config.apiKey
-      }
-    });
+    const client = new BaseQLClient(config.endpoint, config.apiKey, requestPolicyFromEnv());
     
     const query = `{ __schema { queryType { name } } }`;
     await client.request(query);
@@ -84,6 +81,13 @@ export async function validateConfig(): Promise<boolean> {
 }
 
 async function loadConfig(): Promise<{ endpoint: string; apiKey: string } | null> {
+  // A stored credential referenced from the environment takes precedence
+  if (process.env.BASEQL_CREDENTIAL || process.env.BASEQL_USE_KEYCHAIN === 'true') {
+    const name = process.env.BASEQL_CREDENTIAL || DEFAULT_CREDENTIAL_NAME;
+    console.log(chalk.gray(`  Using stored credential "${name}"`));
+    return loadCredential(name);
+  }
+
   // Try environment variables first
   if (process.env.BASEQL_API_ENDPOINT && process.env.BASEQL_API_KEY) {
     return {
@@ -126,6 +130,9 @@ async function loadConfig(): Promise<{ endpoint: string; apiKey: string } | null
     const config = JSON.parse(configContent);
     
     const baseqlConfig = config.mcpServers?.baseql;
+    if (baseqlConfig?.args?.includes('--use-keychain')) {
+      return await loadCredential(baseqlConfig.env?.BASEQL_CREDENTIAL || DEFAULT_CREDENTIAL_NAME);
+    }
     if (baseqlConfig?.env?.BASEQL_API_ENDPOINT && baseqlConfig?.env?.BASEQL_API_KEY) {
       return {
         endpoint: baseqlConfig.env.BASEQL_API_ENDPOINT,
@@ -153,11 +160,7 @@ async function checkMCPInstallation(): Promise<boolean> {
 
 async function testServerFunctionality(config: { endpoint: string; apiKey: string }): Promise<boolean> {
   try {
-    const client = new GraphQLClient(config.endpoint, {
-      headers: {
-        Authorization: config.apiKey
-      }
-    });
+    const client = new BaseQLClient(config.endpoint, config.apiKey, requestPolicyFromEnv());
     
     // Try to list tables
     const query = `
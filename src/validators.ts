@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { RESERVED_RESOURCE_SEGMENTS } from './resources.js';
 
 // Validation schemas
 export const EndpointSchema = z.string().url().refine(
@@ -16,6 +17,54 @@ export const ConfigSchema = z.object({
   apiKey: ApiKeySchema
 });
 
+export const CredentialNameSchema = z.string().regex(
+  /^[A-Za-z0-9_-]+$/,
+  'Credential names may only contain letters, digits, "-" and "_"'
+);
+
+// Names become part of resource URIs (baseql://<name>/schema), so keep them URI-safe and
+// distinct from the segments of the default endpoint's own URIs (baseql://tables/...)
+export const EndpointNameSchema = z.string().regex(
+  /^[A-Za-z0-9_-]+$/,
+  'Endpoint names may only contain letters, digits, "-" and "_"'
+).refine(
+  (name) => !RESERVED_RESOURCE_SEGMENTS.includes(name.toLowerCase()),
+  (name) => ({ message: `Endpoint name "${name}" is reserved for resource URIs; avoid ${RESERVED_RESOURCE_SEGMENTS.map(segment => `"${segment}"`).join(' and ')}` })
+);
+
+export const EndpointEntrySchema = z.object({
+  url: z.string().url().optional(),
+  apiKey: z.string().min(1).optional(),
+  // Name of a credential in the keychain / encrypted credentials file, instead of url + apiKey
+  credential: CredentialNameSchema.optional(),
+  description: z.string().optional(),
+  allowWrites: z.boolean().optional(),
+  allowedTables: z.array(z.string()).optional(),
+  deniedTables: z.array(z.string()).optional()
+}).refine(
+  (entry) => !!entry.credential || (!!entry.url && !!entry.apiKey),
+  'Each endpoint needs url and apiKey, or a credential name'
+);
+
+export const EndpointsFileSchema = z.object({
+  defaultEndpoint: EndpointNameSchema.optional(),
+  endpoints: z.record(EndpointNameSchema, EndpointEntrySchema).refine(
+    (endpoints) => Object.keys(endpoints).length > 0,
+    'At least one endpoint is required'
+  )
+});
+
+export const PromptFileSchema = z.object({
+  name: z.string().regex(/^[A-Za-z0-9_-]+$/, 'Prompt names may only contain letters, digits, "-" and "_"'),
+  description: z.string().optional(),
+  arguments: z.array(z.object({
+    name: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'Argument names must be identifiers'),
+    description: z.string().optional(),
+    required: z.boolean().optional()
+  })).optional(),
+  template: z.string().min(1)
+});
+
 // Validation functions for inquirer
 export function validateEndpoint(input: string): boolean | string {
   try {
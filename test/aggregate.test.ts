@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { aggregateAlias, aggregateRecords } from '../src/aggregate.js';
+
+const purchases = [
+  { status: 'completed', amount: 100, tags: ['web'] },
+  { status: 'completed', amount: 300, tags: ['web', 'phone'] },
+  { status: 'pending', amount: 50, tags: [] },
+  { status: 'pending', amount: null, tags: ['phone'] },
+  { status: null, amount: 10, tags: [] },
+];
+
+describe('aggregateAlias', () => {
+  it('names a column after its op and field unless given a name', () => {
+    expect(aggregateAlias({ op: 'count' })).toBe('count');
+    expect(aggregateAlias({ op: 'sum', field: 'amount' })).toBe('sum_amount');
+    expect(aggregateAlias({ op: 'sum', field: 'amount', as: 'revenue' })).toBe('revenue');
+  });
+});
+
+describe('aggregateRecords', () => {
+  it('covers every record in one row without groupBy', () => {
+    expect(aggregateRecords(purchases, [], [
+      { op: 'count' },
+      { op: 'sum', field: 'amount' },
+      { op: 'avg', field: 'amount' },
+      { op: 'min', field: 'amount' },
+      { op: 'max', field: 'amount' },
+    ])).toEqual([{ count: 5, sum_amount: 460, avg_amount: 115, min_amount: 10, max_amount: 300 }]);
+  });
+
+  it('returns a row of zeros for no records', () => {
+    expect(aggregateRecords([], [], [{ op: 'count' }, { op: 'avg', field: 'amount' }])).toEqual([{ count: 0, avg_amount: null }]);
+  });
+
+  it('groups records and orders rows by the first aggregate, largest first', () => {
+    const rows = aggregateRecords(purchases, ['status'], [{ op: 'sum', field: 'amount', as: 'revenue' }, { op: 'count' }]);
+    expect(rows).toEqual([
+      { status: 'completed', revenue: 400, count: 2 },
+      { status: 'pending', revenue: 50, count: 2 },
+      { status: null, revenue: 10, count: 1 },
+    ]);
+  });
+
+  it('puts multi-select records in one group per option', () => {
+    const rows = aggregateRecords(purchases, ['tags'], [{ op: 'count' }]);
+    expect(rows).toEqual([
+      { tags: 'web', count: 2 },
+      { tags: 'phone', count: 2 },
+      { tags: null, count: 2 },
+    ]);
+  });
+
+  it('counts only present values of a field', () => {
+    expect(aggregateRecords(purchases, [], [{ op: 'count', field: 'amount' }])).toEqual([{ count_amount: 4 }]);
+  });
+});
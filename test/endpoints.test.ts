@@ -0,0 +1,74 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { EndpointConfig, EndpointRegistry, loadEndpointsFile } from '../src/endpoints.js';
+import { AccessPolicy, assertTableAccess } from '../src/query-guard.js';
+
+const endpoint = (overrides: Partial<EndpointConfig> = {}): EndpointConfig => ({
+  name: 'crm',
+  url: 'https://api.baseql.com/airtable/graphql/app1',
+  apiKey: 'Bearer key',
+  ...overrides,
+});
+
+const policyFor = (base: AccessPolicy, overrides: Partial<EndpointConfig> = {}) =>
+  new EndpointRegistry({ defaultEndpoint: 'crm', endpoints: [endpoint(overrides)] }, base).get('crm').accessPolicy;
+
+describe('EndpointRegistry access policy', () => {
+  it('uses the server-wide policy when the endpoint sets nothing', () => {
+    const base = { allowWrites: true, allowedTables: ['contacts'], deniedTables: ['payroll'] };
+    expect(policyFor(base)).toEqual(base);
+  });
+
+  it('keeps a table denied on the command line denied, whatever the endpoint lists', () => {
+    const policy = policyFor({ allowWrites: false, deniedTables: ['payroll'] }, { deniedTables: ['audit'], allowedTables: ['payroll', 'contacts'] });
+    expect(() => assertTableAccess('payroll', policy)).toThrow(/ACCESS_DENIED/);
+    expect(() => assertTableAccess('audit', policy)).toThrow(/ACCESS_DENIED/);
+    expect(() => assertTableAccess('contacts', policy)).not.toThrow();
+  });
+
+  it('only allows tables both the server and the endpoint allow', () => {
+    const policy = policyFor({ allowWrites: false, allowedTables: ['contacts', 'companies'] }, { allowedTables: ['contacts', 'payroll'] });
+    expect(policy.allowedTables).toEqual(['contacts']);
+    expect(() => assertTableAccess('payroll', policy)).toThrow(/ACCESS_DENIED/);
+    expect(() => assertTableAccess('companies', policy)).toThrow(/ACCESS_DENIED/);
+  });
+
+  it('lets an endpoint restrict a server that allows every table', () => {
+    expect(policyFor({ allowWrites: false }, { allowedTables: ['contacts'] }).allowedTables).toEqual(['contacts']);
+  });
+
+  it('never enables writes the server was not started with', () => {
+    expect(policyFor({ allowWrites: false }, { allowWrites: true }).allowWrites).toBe(false);
+    expect(policyFor({ allowWrites: true }, { allowWrites: false }).allowWrites).toBe(false);
+    expect(policyFor({ allowWrites: true }).allowWrites).toBe(true);
+  });
+});
+
+describe('loadEndpointsFile', () => {
+  const load = (config: unknown) => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'baseql-endpoints-'));
+    const file = path.join(dir, 'endpoints.json');
+    try {
+      fs.writeFileSync(file, JSON.stringify(config));
+      return loadEndpointsFile(file);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  };
+  const entry = { url: 'https://api.baseql.com/airtable/graphql/app1', apiKey: 'Bearer key' };
+
+  it('defaults to the first endpoint listed', () => {
+    expect(load({ endpoints: { crm: entry, events: entry } }).defaultEndpoint).toBe('crm');
+  });
+
+  it('rejects endpoint names that would clash with resource URIs', () => {
+    expect(() => load({ endpoints: { tables: entry } })).toThrow(/Endpoint name "tables" is reserved for resource URIs/);
+    expect(() => load({ endpoints: { crm: entry, Schema: entry } })).toThrow(/"Schema" is reserved/);
+  });
+
+  it('still allows those names for stored credentials', () => {
+    expect(load({ endpoints: { crm: { credential: 'tables' } } }).endpoints[0].credential).toBe('tables');
+  });
+});
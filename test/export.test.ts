@@ -0,0 +1,47 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ExportWriter, exportFileName } from '../src/export.js';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'baseql-export-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('exportFileName', () => {
+  it('adds the extension and refuses paths', () => {
+    expect(exportFileName('contacts', 'csv', 'march')).toBe('march.csv');
+    expect(() => exportFileName('contacts', 'csv', '../march')).toThrow(/plain file name/);
+  });
+});
+
+describe('ExportWriter', () => {
+  it('writes the file with a checksum and leaves no partial file', async () => {
+    const writer = await ExportWriter.open(dir, 'contacts.csv', 'csv', ['id', 'company.name']);
+    await writer.write([{ id: 'rec1', company: [{ name: 'Acme' }] }]);
+    const result = await writer.finish();
+
+    const content = fs.readFileSync(result.path, 'utf-8');
+    expect(content).toBe('id,company.name\nrec1,Acme\n');
+    expect(result).toMatchObject({ rows: 1, bytes: content.length });
+    expect(result.sha256).toBe(crypto.createHash('sha256').update(content).digest('hex'));
+    expect(fs.readdirSync(dir)).toEqual(['contacts.csv']);
+  });
+
+  it('refuses to replace a file created while the export was running', async () => {
+    const writer = await ExportWriter.open(dir, 'contacts.json', 'json', []);
+    await writer.write([{ id: 'rec1' }]);
+    fs.writeFileSync(path.join(dir, 'contacts.json'), 'someone else\'s file');
+
+    await expect(writer.finish()).rejects.toThrow(/already exists/);
+    expect(fs.readFileSync(path.join(dir, 'contacts.json'), 'utf-8')).toBe('someone else\'s file');
+    expect(fs.readdirSync(dir)).toEqual(['contacts.json']);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { applyResidualFilter, matchesFilter, parseFilter, planFilter } from '../src/filter.js';
+
+describe('planFilter', () => {
+  it('returns an empty plan without a filter', () => {
+    expect(planFilter()).toEqual({ pushed: {}, residual: null, residualFields: [] });
+    expect(planFilter({})).toEqual({ pushed: {}, residual: null, residualFields: [] });
+  });
+
+  it('pushes equality conditions down to BaseQL', () => {
+    const plan = planFilter({ status: 'Open', type: { eq: 'Student' }, stage: { in: ['Lead'] } });
+    expect(plan.pushed).toEqual({ status: 'Open', type: 'Student', stage: 'Lead' });
+    expect(plan.residual).toBeNull();
+  });
+
+  it('keeps other operators client-side and lists the fields they read', () => {
+    const plan = planFilter({ status: 'Open', amount: { gt: 100 }, or: [{ type: 'Student' }, { email: { contains: 'umd.edu' } }] });
+    expect(plan.pushed).toEqual({ status: 'Open' });
+    expect(plan.residual).not.toBeNull();
+    expect(plan.residualFields.sort()).toEqual(['amount', 'email', 'type']);
+  });
+
+  it('evaluates a second condition on an already pushed field client-side', () => {
+    const plan = planFilter({ and: [{ status: 'Open' }, { status: 'Closed' }] });
+    expect(plan.pushed).toEqual({ status: 'Open' });
+    expect(plan.residualFields).toEqual(['status']);
+  });
+
+  it('rejects unknown operators and malformed operands', () => {
+    expect(() => planFilter({ amount: { greater: 1 } })).toThrow(/unknown operator "greater"/);
+    expect(() => planFilter({ created: { between: ['2024-01-01'] } })).toThrow(/needs \[from, to\]/);
+    expect(() => planFilter({ stage: { in: 'Lead' } })).toThrow(/needs an array/);
+    expect(() => planFilter({ or: [] })).toThrow(/non-empty array/);
+  });
+});
+
+describe('matchesFilter', () => {
+  const matches = (record: Record<string, any>, filter: Record<string, any>) => matchesFilter(record, parseFilter(filter));
+
+  it('compares numbers and strings', () => {
+    expect(matches({ amount: 150 }, { amount: { gt: 100 } })).toBe(true);
+    expect(matches({ amount: 100 }, { amount: { gt: 100 } })).toBe(false);
+    expect(matches({ amount: 100 }, { amount: { gte: 100, lt: 200 } })).toBe(true);
+    expect(matches({ amount: null }, { amount: { lt: 200 } })).toBe(false);
+  });
+
+  it('matches any element of multi-select and linked fields', () => {
+    expect(matches({ tags: ['a', 'b'] }, { tags: 'b' })).toBe(true);
+    expect(matches({ company: [{ id: 'rec1' }] }, { company: 'rec1' })).toBe(true);
+    expect(matches({ tags: ['a'] }, { tags: { notIn: ['a', 'c'] } })).toBe(false);
+  });
+
+  it('matches text case-insensitively', () => {
+    expect(matches({ email: 'Ada@UMD.edu' }, { email: { contains: 'umd.edu' } })).toBe(true);
+    expect(matches({ name: 'Ada Lovelace' }, { name: { startsWith: 'ada' } })).toBe(true);
+  });
+
+  it('treats null, empty strings and empty lists as empty', () => {
+    expect(matches({ notes: '' }, { notes: { isEmpty: true } })).toBe(true);
+    expect(matches({ tags: [] }, { tags: { isEmpty: true } })).toBe(true);
+    expect(matches({}, { notes: { isEmpty: true } })).toBe(true);
+    expect(matches({ notes: 'x' }, { notes: { isEmpty: false } })).toBe(true);
+  });
+
+  it('combines conditions with and, or and not', () => {
+    const filter = { or: [{ type: 'Student' }, { amount: { gt: 100 } }], not: { stage: 'Closed' } };
+    expect(matches({ type: 'Student', stage: 'Open' }, filter)).toBe(true);
+    expect(matches({ type: 'Teacher', amount: 500, stage: 'Open' }, filter)).toBe(true);
+    expect(matches({ type: 'Student', stage: 'Closed' }, filter)).toBe(false);
+  });
+
+  it('treats a date-only bound as the whole day', () => {
+    const afternoon = { created: '2024-03-31T15:00:00Z' };
+    expect(matches(afternoon, { created: { lte: '2024-03-31' } })).toBe(true);
+    expect(matches(afternoon, { created: { between: ['2024-03-01', '2024-03-31'] } })).toBe(true);
+    expect(matches(afternoon, { created: { after: '2024-03-31' } })).toBe(false);
+    expect(matches(afternoon, { created: { gt: '2024-03-31' } })).toBe(false);
+    expect(matches(afternoon, { created: { gte: '2024-03-31' } })).toBe(true);
+    expect(matches({ created: '2024-04-01' }, { created: { after: '2024-03-31' } })).toBe(true);
+    expect(matches(afternoon, { created: { before: '2024-03-31' } })).toBe(false);
+  });
+
+  it('reads date-times without a zone as UTC', () => {
+    expect(matches({ created: '2024-03-31T23:30' }, { created: { before: '2024-04-01T00:00:00Z' } })).toBe(true);
+    expect(matches({ created: '2024-03-31 23:30:00' }, { created: { lte: '2024-03-31' } })).toBe(true);
+  });
+});
+
+describe('applyResidualFilter', () => {
+  it('returns every record when nothing is left to evaluate', () => {
+    const records = [{ status: 'Open' }, { status: 'Closed' }];
+    expect(applyResidualFilter(records, planFilter({ status: 'Open' }))).toBe(records);
+  });
+
+  it('keeps the records matching the residual filter', () => {
+    const records = [{ amount: 50 }, { amount: 150 }, { amount: 250 }];
+    expect(applyResidualFilter(records, planFilter({ amount: { between: [100, 200] } }))).toEqual([{ amount: 150 }]);
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { flattenRecord } from '../src/formatters.js';
+
+describe('flattenRecord', () => {
+  it('turns nested objects into dotted columns', () => {
+    expect(flattenRecord({ id: 'rec1', address: { city: 'Paris', zip: '75001' } }))
+      .toEqual({ id: 'rec1', 'address.city': 'Paris', 'address.zip': '75001' });
+  });
+
+  it('joins arrays of scalars', () => {
+    expect(flattenRecord({ tags: ['a', 'b'] })).toEqual({ tags: 'a; b' });
+  });
+
+  it('keeps linked record columns aligned when some values are empty', () => {
+    const record = {
+      company: [
+        { name: 'Acme', city: null },
+        { name: 'Globex', city: 'Springfield' },
+      ],
+    };
+    expect(flattenRecord(record)).toEqual({
+      'company.name': 'Acme; Globex',
+      'company.city': '; Springfield',
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { GraphQLScalarType, buildSchema, graphql, introspectionFromSchema, valueFromASTUntyped } from 'graphql';
+import { SchemaModel, buildSchemaModel } from '../../src/schema-cache.js';
+
+/**
+ * A small BaseQL-like GraphQL endpoint for tests: contacts link to companies and to a payroll
+ * table, list fields take BaseQL's `_filter` / `_order_by` / `_page_size` / `_page` arguments,
+ * and contacts can be inserted, updated and deleted.
+ */
+const SDL = `
+  scalar JSON
+
+  type contacts {
+    id: String
+    fullName: String
+    email: String
+    type: String
+    amount: Float
+    company: [companies]
+    salary: [payroll]
+  }
+
+  type companies {
+    id: String
+    name: String
+    contacts: [contacts]
+  }
+
+  type payroll {
+    id: String
+    monthly: Float
+    contact: [contacts]
+  }
+
+  type Query {
+    contacts(_filter: JSON, _order_by: JSON, _page_size: Float, _page: Float): [contacts]
+    companies(_filter: JSON, _order_by: JSON, _page_size: Float, _page: Float): [companies]
+    payroll(_filter: JSON, _order_by: JSON, _page_size: Float, _page: Float): [payroll]
+  }
+
+  type Mutation {
+    insert_contacts(fullName: String, email: String, type: String, amount: Float, company: [String], salary: [String]): contacts
+    update_contacts(id: String!, fullName: String, email: String, type: String, amount: Float, company: [String], salary: [String]): contacts
+    delete_contacts(id: String!): contacts
+  }
+`;
+
+type Row = Record<string, any>;
+
+/**
+ * The mock endpoint's schema model, for tests that need no running endpoint.
+ */
+export function mockSchemaModel(): SchemaModel {
+  return buildSchemaModel(introspectionFromSchema(buildSchema(SDL)));
+}
+
+export interface MockBaseQL {
+  url: string;
+  /** Records by table; links are stored as arrays of record ids */
+  db: Record<string, Row[]>;
+  /** Every GraphQL request received, in order */
+  requests: Array<{ query: string; variables?: Record<string, any> }>;
+  close(): Promise<void>;
+}
+
+function seed(): Record<string, Row[]> {
+  return {
+    companies: [{ id: 'co1', name: 'Acme' }, { id: 'co2', name: 'Globex' }],
+    payroll: [{ id: 'pay1', monthly: 5000, contact: ['rec1'] }],
+    contacts: Array.from({ length: 25 }, (_, i) => ({
+      id: `rec${i + 1}`,
+      fullName: `Person ${i + 1}`,
+      email: `p${i + 1}@${i % 2 ? 'umd.edu' : 'acme.com'}`,
+      type: ['Student', 'Staff', 'Faculty'][i % 3],
+      amount: (i + 1) * 10,
+      company: [i % 2 ? 'co2' : 'co1'],
+      salary: i === 0 ? ['pay1'] : [],
+    })),
+  };
+}
+
+// Which table each link field points at
+const LINKS: Record<string, Record<string, string>> = {
+  contacts: { company: 'companies', salary: 'payroll' },
+  companies: { contacts: 'contacts' },
+  payroll: { contact: 'contacts' },
+};
+
+export async function startMockBaseQL(): Promise<MockBaseQL> {
+  const schema = buildSchema(SDL);
+  (schema.getType('JSON') as GraphQLScalarType).parseLiteral = (ast, variables) => valueFromASTUntyped(ast, variables);
+
+  const db = seed();
+  const requests: MockBaseQL['requests'] = [];
+
+  const resolveLinks = (table: string, record: Row): Row => {
+    const resolved: Row = { ...record };
+    for (const [field, target] of Object.entries(LINKS[table] ?? {})) {
+      if (table === 'companies' && field === 'contacts') {
+        resolved.contacts = () => db.contacts.filter(contact => contact.company.includes(record.id)).map(row => resolveLinks('contacts', row));
+      } else {
+        resolved[field] = () => db[target].filter(row => (record[field] ?? []).includes(row.id)).map(row => resolveLinks(target, row));
+      }
+    }
+    return resolved;
+  };
+
+  const list = (table: string) => (args: Row) => {
+    let rows = db[table];
+    if (args._filter) {
+      rows = rows.filter(row => Object.entries(args._filter).every(([key, value]) =>
+        Array.isArray(row[key]) ? row[key].includes(value) : row[key] === value));
+    }
+    if (args._order_by) {
+      const [[key, direction]] = Object.entries(args._order_by as Row);
+      rows = [...rows].sort((a, b) => (a[key] > b[key] ? 1 : -1) * (direction === 'desc' ? -1 : 1));
+    }
+    const size = args._page_size || 100;
+    const page = args._page || 1;
+    return rows.slice((page - 1) * size, page * size).map(row => resolveLinks(table, row));
+  };
+
+  const rootValue = {
+    contacts: list('contacts'),
+    companies: list('companies'),
+    payroll: list('payroll'),
+    insert_contacts: (args: Row) => {
+      const record = { id: `rec${db.contacts.length + 1}`, company: [], salary: [], ...args };
+      db.contacts.push(record);
+      return resolveLinks('contacts', record);
+    },
+    update_contacts: (args: Row) => {
+      const record = db.contacts.find(contact => contact.id === args.id)!;
+      Object.assign(record, args);
+      return resolveLinks('contacts', record);
+    },
+    delete_contacts: (args: Row) => {
+      const index = db.contacts.findIndex(contact => contact.id === args.id);
+      return resolveLinks('contacts', db.contacts.splice(index, 1)[0]);
+    },
+  };
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', async () => {
+      const { query, variables } = JSON.parse(body || '{}');
+      requests.push({ query, variables });
+      const result = await graphql({ schema, source: query, rootValue, variableValues: variables });
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(result));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/graphql`,
+    db,
+    requests,
+    close: () => new Promise(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+}
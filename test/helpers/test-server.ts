@@ -0,0 +1,22 @@
+import { BaseQLMCPServer, BaseQLMCPServerOptions } from '../../src/server.js';
+import { MockBaseQL } from './mock-baseql.js';
+
+/**
+ * A server pointed at the mock endpoint, with `run` returning a tool's JSON result. Responses
+ * are neither cached nor truncated unless a test asks for it.
+ */
+export function testServer(mock: MockBaseQL, options: BaseQLMCPServerOptions = {}) {
+  const server = new BaseQLMCPServer({
+    endpoint: mock.url,
+    apiKey: 'Bearer test',
+    cache: false,
+    maxResponseTokens: 0,
+    maxRetries: 0,
+    ...options,
+  });
+  const run = async (tool: string, args: Record<string, unknown> = {}): Promise<any> => {
+    const [content] = await server.runTool(tool, { format: 'json', ...args });
+    return JSON.parse(content.text);
+  };
+  return { server, run };
+}
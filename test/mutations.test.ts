@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { buildRecordMutation, discoverTableMutations, requireMutation } from '../src/mutations.js';
+import { mockSchemaModel } from './helpers/mock-baseql.js';
+
+const contacts = () => discoverTableMutations(mockSchemaModel(), 'contacts');
+
+describe('discoverTableMutations', () => {
+  it('classifies insert, update and delete mutations by name', () => {
+    const mutations = contacts();
+    expect(mutations.create?.name).toBe('insert_contacts');
+    expect(mutations.update?.name).toBe('update_contacts');
+    expect(mutations.delete?.name).toBe('delete_contacts');
+  });
+
+  it('explains when a table has no mutation for an operation', () => {
+    const mutations = discoverTableMutations(mockSchemaModel(), 'companies');
+    expect(() => requireMutation(mutations, 'create')).toThrow(/\[NOT_FOUND\] No create mutation found for table "companies"/);
+  });
+});
+
+describe('buildRecordMutation', () => {
+  it('passes field values as variables typed from the mutation arguments', () => {
+    const mutations = contacts();
+    const { query, variables } = buildRecordMutation(mutations, mutations.create!, {
+      fields: { fullName: 'Ada', amount: 12.5, company: ['co1'] },
+    });
+
+    expect(query).toContain('mutation CreateRecord($fullName: String, $amount: Float, $company: [String])');
+    expect(query).toContain('insert_contacts(fullName: $fullName, amount: $amount, company: $company)');
+    expect(variables).toEqual({ fullName: 'Ada', amount: 12.5, company: ['co1'] });
+  });
+
+  it('selects only the scalar fields of the returned record', () => {
+    const mutations = contacts();
+    const { query } = buildRecordMutation(mutations, mutations.delete!, { id: 'rec1' });
+    expect(query).toMatch(/delete_contacts\(id: \$id\) \{\s+id\s+fullName\s+email\s+type\s+amount\s+\}/);
+  });
+
+  it('sends only the changed fields on update', () => {
+    const mutations = contacts();
+    const { variables } = buildRecordMutation(mutations, mutations.update!, { id: 'rec1', fields: { type: 'Staff' } });
+    expect(variables).toEqual({ id: 'rec1', type: 'Staff' });
+  });
+
+  it('requires an id for update and delete', () => {
+    const mutations = contacts();
+    expect(() => buildRecordMutation(mutations, mutations.delete!, {})).toThrow(/id is required/);
+  });
+
+  it('suggests the closest field for an unknown name', () => {
+    const mutations = contacts();
+    expect(() => buildRecordMutation(mutations, mutations.create!, { fields: { fullname: 'Ada' } }))
+      .toThrow(/\[UNKNOWN_FIELD\].*Unknown field "fullname" on table "contacts" \(did you mean "fullName"\?\)/);
+  });
+
+  it('reports every value of the wrong type', () => {
+    const mutations = contacts();
+    expect(() => buildRecordMutation(mutations, mutations.create!, { fields: { amount: '12', company: 'co1' } }))
+      .toThrow(/\[INVALID_ARGUMENT\].*amount must be a number; company must be an array/);
+  });
+
+  it('refuses to set the id directly', () => {
+    const mutations = contacts();
+    expect(() => buildRecordMutation(mutations, mutations.update!, { id: 'rec1', fields: { id: 'rec2' } }))
+      .toThrow(/id cannot be set directly/);
+  });
+});
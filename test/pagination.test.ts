@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { BASEQL_MAX_PAGE_SIZE, decodeCursor, encodeCursor, fetchAllRecords } from '../src/pagination.js';
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value), 'utf-8').toString('base64url');
+
+describe('decodeCursor', () => {
+  it('returns the offset of a cursor made by encodeCursor', () => {
+    expect(decodeCursor(encodeCursor('contacts', 200), 'contacts')).toBe(200);
+  });
+
+  it('rejects a cursor for another table', () => {
+    expect(() => decodeCursor(encodeCursor('companies', 100), 'contacts')).toThrow(/belongs to table "companies"/);
+  });
+
+  it('rejects text that is not a cursor', () => {
+    expect(() => decodeCursor('not a cursor', 'contacts')).toThrow(/cursor is not valid/);
+  });
+
+  it.each([null, 42, 'contacts', [1, 2], true])('rejects a cursor that decodes to %j', value => {
+    expect(() => decodeCursor(encode(value), 'contacts')).toThrow(/cursor is not valid/);
+  });
+
+  it.each([-1, 1.5, '100'])('rejects an offset of %j', offset => {
+    expect(() => decodeCursor(encode({ table: 'contacts', offset }), 'contacts')).toThrow(/cursor is not valid/);
+  });
+});
+
+describe('fetchAllRecords', () => {
+  const table = (size: number) => async (page: number, pageSize: number) =>
+    Array.from({ length: Math.max(0, Math.min(pageSize, size - (page - 1) * pageSize)) }, (_, i) => (page - 1) * pageSize + i);
+
+  it('reads every page of a table that fits', async () => {
+    const scan = await fetchAllRecords(table(250), { maxRecords: 1000 });
+    expect(scan.records).toHaveLength(250);
+    expect(scan.complete).toBe(true);
+    expect(scan.pagesFetched).toBe(3);
+  });
+
+  it('stops at maxRecords and reports the scan as incomplete', async () => {
+    const scan = await fetchAllRecords(table(500), { maxRecords: 150 });
+    expect(scan.records).toHaveLength(150);
+    expect(scan.complete).toBe(false);
+  });
+
+  it('is complete when the table has exactly maxRecords records', async () => {
+    const scan = await fetchAllRecords(table(2 * BASEQL_MAX_PAGE_SIZE), { maxRecords: 2 * BASEQL_MAX_PAGE_SIZE });
+    expect(scan.records).toHaveLength(2 * BASEQL_MAX_PAGE_SIZE);
+    expect(scan.complete).toBe(true);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { AccessPolicy, assertQueryAllowed, assertTableAccess, isTableAllowed, redactIntrospection } from '../src/query-guard.js';
+import { mockSchemaModel } from './helpers/mock-baseql.js';
+
+const schema = mockSchemaModel();
+const readOnly: AccessPolicy = { allowWrites: false };
+const noPayroll: AccessPolicy = { allowWrites: true, deniedTables: ['payroll'] };
+const check = (query: string, policy: AccessPolicy, variables?: Record<string, unknown>) =>
+  () => assertQueryAllowed(query, policy, schema, variables);
+
+describe('assertTableAccess', () => {
+  it('matches table names exactly, ignoring case', () => {
+    const policy: AccessPolicy = { allowWrites: false, deniedTables: ['Status'] };
+    expect(() => assertTableAccess('status', policy)).toThrow(/ACCESS_DENIED/);
+    expect(() => assertTableAccess('statu', policy)).not.toThrow();
+    expect(isTableAllowed('statuses', policy)).toBe(true);
+  });
+
+  it('only lets listed tables through an allow list', () => {
+    const policy: AccessPolicy = { allowWrites: false, allowedTables: ['contacts'] };
+    expect(() => assertTableAccess('contacts', policy)).not.toThrow();
+    expect(() => assertTableAccess('contact', policy)).toThrow(/not allowed/);
+  });
+});
+
+describe('assertQueryAllowed', () => {
+  it('rejects mutations in read-only mode', () => {
+    expect(check('mutation { delete_contacts(id: "rec1") { id } }', readOnly)).toThrow(/WRITES_DISABLED/);
+    expect(check('{ contacts { id } }', readOnly)).not.toThrow();
+  });
+
+  it('rejects subscriptions and unparsable queries', () => {
+    expect(check('subscription { contacts { id } }', readOnly)).toThrow(/Subscriptions are not supported/);
+    expect(check('{ contacts {', readOnly)).toThrow(/GRAPHQL_ERROR/);
+  });
+
+  it('rejects a denied table as a root field', () => {
+    expect(check('{ payroll { id } }', noPayroll)).toThrow(/"payroll" is denied/);
+  });
+
+  it('rejects a denied table reached through links, fragments and mutations', () => {
+    expect(check('{ contacts { salary { monthly } } }', noPayroll)).toThrow(/"payroll" is denied/);
+    expect(check('{ companies { contacts { salary { id } } } }', noPayroll)).toThrow(/"payroll" is denied/);
+    expect(check('{ contacts { ...pay } } fragment pay on contacts { salary { id } }', noPayroll)).toThrow(/"payroll" is denied/);
+    expect(check('mutation { insert_contacts(fullName: "A") { salary { id } } }', noPayroll)).toThrow(/"payroll" is denied/);
+  });
+
+  it('allows queries that stay within permitted tables', () => {
+    expect(check('{ contacts { fullName company { name } } }', noPayroll)).not.toThrow();
+  });
+
+  it('rejects __type on a denied table, given literally or as a variable', () => {
+    expect(check('{ __type(name: "payroll") { fields { name } } }', noPayroll)).toThrow(/"payroll" is denied/);
+    expect(check('query ($t: String!) { __type(name: $t) { name } }', noPayroll, { t: 'payroll' })).toThrow(/"payroll" is denied/);
+    expect(check('{ __type(name: "contacts") { fields { name } } }', noPayroll)).not.toThrow();
+  });
+
+  it('refuses full schema introspection only while table lists are set', () => {
+    expect(check('{ __schema { types { name } } }', noPayroll)).toThrow(/baseql:\/\/schema/);
+    expect(check('{ __schema { types { name } } }', readOnly)).not.toThrow();
+  });
+
+  it('refuses to half check a query when the schema is unavailable', () => {
+    expect(() => assertQueryAllowed('{ contacts { id } }', noPayroll, null)).toThrow(/UNAVAILABLE/);
+  });
+});
+
+describe('redactIntrospection', () => {
+  it('leaves out denied tables and the fields linking to them', () => {
+    const redacted = redactIntrospection(schema.introspection, schema, noPayroll);
+    const types = redacted.__schema.types;
+    expect(types.some(type => type.name === 'payroll')).toBe(false);
+
+    const contacts = types.find(type => type.name === 'contacts');
+    expect(contacts?.kind === 'OBJECT' && contacts.fields.map(field => field.name)).not.toContain('salary');
+    const query = types.find(type => type.name === 'Query');
+    expect(query?.kind === 'OBJECT' && query.fields.map(field => field.name)).toEqual(['contacts', 'companies']);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { buildSchema, parse, print } from 'graphql';
+import { autofixDocument, describeFix, validationErrors } from '../src/query-validation.js';
+
+// Shaped like a BaseQL schema: numbers are Float and tables take _page_size and _order_by
+const schema = buildSchema(`
+  scalar JSON
+
+  type contacts {
+    id: String
+    fullName: String
+    amount: Float
+  }
+
+  type Query {
+    contacts(_filter: JSON, _order_by: JSON, _page_size: Float, _page: Float): [contacts]
+  }
+`);
+
+const fix = (query: string) => autofixDocument(parse(query), schema);
+
+describe('autofixDocument', () => {
+  it('leaves a valid document untouched', () => {
+    const document = parse('{ contacts(_page_size: 10) { id } }');
+    const result = autofixDocument(document, schema);
+    expect(result.fixes).toEqual([]);
+    expect(result.document).toBe(document);
+  });
+
+  it('rewrites Int variables to Float', () => {
+    const result = fix('query ($size: Int!) { contacts(_page_size: $size) { id } }');
+    expect(print(result.document)).toContain('$size: Float!');
+    expect(result.fixes).toEqual([{ rule: 'int-to-float', from: '$size: Int', to: '$size: Float', line: 1, column: 15 }]);
+    expect(validationErrors(result.document, schema)).toEqual([]);
+  });
+
+  it('keeps Int variables when the schema accepts Int', () => {
+    const withInt = buildSchema('type Query { contacts(_page_size: Int): [String] }');
+    expect(autofixDocument(parse('query ($size: Int) { contacts(_page_size: $size) }'), withInt).fixes).toEqual([]);
+  });
+
+  it('renames limit to _page_size', () => {
+    const result = fix('{ contacts(limit: 5) { id } }');
+    expect(print(result.document)).toContain('_page_size: 5');
+    expect(result.fixes.map(item => item.rule)).toEqual(['limit-to-page-size']);
+  });
+
+  it('lowercases sort directions anywhere in _order_by', () => {
+    const result = fix('{ contacts(_order_by: [{fullName: ASC}, {amount: "DESC"}]) { id } }');
+    expect(print(result.document)).toContain('_order_by: [{fullName: "asc"}, {amount: "desc"}]');
+    expect(result.fixes.map(item => `${item.from} → ${item.to}`)).toEqual(['ASC → "asc"', '"DESC" → "desc"']);
+  });
+
+  it('does not touch fields that are not sort directions', () => {
+    const result = fix('{ contacts(_order_by: {fullName: "asc"}, _filter: {fullName: "ASC"}) { id } }');
+    expect(result.fixes).toEqual([]);
+  });
+});
+
+describe('validationErrors', () => {
+  it('reports every problem with its location', () => {
+    const errors = validationErrors(parse('{ contacts { id email phone } }'), schema);
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toMatch(/"email".*\(line 1, column 17\)/);
+  });
+});
+
+describe('describeFix', () => {
+  it('includes the position when known', () => {
+    expect(describeFix({ rule: 'limit-to-page-size', from: 'limit', to: '_page_size', line: 2, column: 12 }))
+      .toBe('limit → _page_size (line 2, column 12)');
+    expect(describeFix({ rule: 'limit-to-page-size', from: 'limit', to: '_page_size' })).toBe('limit → _page_size');
+  });
+});
@@ -0,0 +1,140 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  BaseQLClient,
+  CircuitOpenError,
+  DEFAULT_REQUEST_POLICY,
+  RateLimitError,
+  RequestPolicy,
+  RequestTimeoutError,
+  requestPolicyFromEnv,
+} from '../src/request-client.js';
+
+type Reply = { status: number; headers?: Record<string, string>; delayMs?: number } | 'hang';
+
+// The endpoint answers each request with the next scripted reply, then with 200s
+let server: http.Server;
+let url: string;
+let replies: Reply[];
+let received: number;
+let inFlight: number;
+let maxInFlight: number;
+
+beforeEach(async () => {
+  replies = [];
+  received = 0;
+  inFlight = 0;
+  maxInFlight = 0;
+  server = http.createServer((req, res) => {
+    req.resume();
+    req.on('end', () => {
+      received++;
+      const reply = replies.shift() ?? { status: 200 };
+      if (reply === 'hang') {
+        return;
+      }
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      setTimeout(() => {
+        inFlight--;
+        const body = reply.status === 200 ? { data: { ok: true } } : { errors: [{ message: `status ${reply.status}` }] };
+        res.writeHead(reply.status, { 'content-type': 'application/json', ...reply.headers });
+        res.end(JSON.stringify(body));
+      }, reply.delayMs ?? 0);
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+});
+
+afterEach(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+const client = (policy: Partial<RequestPolicy> = {}) =>
+  new BaseQLClient(url, 'test', { ...DEFAULT_REQUEST_POLICY, retryBaseDelayMs: 0, ...policy });
+
+describe('BaseQLClient', () => {
+  it('retries 5xx responses to queries', async () => {
+    replies = [{ status: 503 }, { status: 502 }];
+    const baseql = client();
+
+    expect(await baseql.request('{ ok }')).toEqual({ ok: true });
+    expect(received).toBe(3);
+    expect(baseql.stats.retries).toBe(2);
+  });
+
+  it('does not retry a failed mutation, which may have landed', async () => {
+    replies = [{ status: 503 }];
+    await expect(client().request('mutation { ok }')).rejects.toThrow(/Code: 503/);
+    expect(received).toBe(1);
+  });
+
+  it('does not retry permanent errors', async () => {
+    replies = [{ status: 400 }];
+    await expect(client().request('{ ok }')).rejects.toThrow();
+    expect(received).toBe(1);
+  });
+
+  it('retries rate-limited mutations after Retry-After and gives up with a rate limit error', async () => {
+    replies = [{ status: 429, headers: { 'retry-after': '0' } }, { status: 429 }, { status: 429 }];
+    const baseql = client({ maxRetries: 2 });
+
+    await expect(baseql.request('mutation { ok }')).rejects.toBeInstanceOf(RateLimitError);
+    expect(received).toBe(3);
+    expect(baseql.stats.rateLimited).toBe(3);
+    expect(baseql.stats.breaker).toBe('closed');
+  });
+
+  it('aborts attempts that exceed the timeout', async () => {
+    replies = ['hang'];
+    await expect(client({ timeoutMs: 50, maxRetries: 0 }).request('{ ok }')).rejects.toBeInstanceOf(RequestTimeoutError);
+  });
+
+  it('opens the circuit breaker after consecutive failures and lets a trial through after the cooldown', async () => {
+    replies = [{ status: 503 }, { status: 503 }];
+    const baseql = client({ maxRetries: 0, breakerThreshold: 2, breakerCooldownMs: 100 });
+
+    await expect(baseql.request('{ ok }')).rejects.toThrow();
+    await expect(baseql.request('{ ok }')).rejects.toThrow();
+    await expect(baseql.request('{ ok }')).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(received).toBe(2);
+
+    await new Promise(resolve => setTimeout(resolve, 120));
+    expect(baseql.stats.breaker).toBe('half-open');
+    expect(await baseql.request('{ ok }')).toEqual({ ok: true });
+    expect(baseql.stats.breaker).toBe('closed');
+  });
+
+  it('keeps no more requests in flight than the concurrency limit', async () => {
+    replies = Array.from({ length: 4 }, () => ({ status: 200, delayMs: 20 }));
+    const baseql = client({ maxConcurrency: 2 });
+
+    await Promise.all(Array.from({ length: 4 }, () => baseql.request('{ ok }')));
+    expect(maxInFlight).toBe(2);
+  });
+});
+
+describe('requestPolicyFromEnv', () => {
+  const saved = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it('reads valid environment values and lets explicit overrides win', () => {
+    process.env.BASEQL_TIMEOUT_MS = '5000';
+    process.env.BASEQL_MAX_RETRIES = '-1';
+    process.env.BASEQL_MAX_CONCURRENCY = '8';
+
+    const policy = requestPolicyFromEnv({ maxConcurrency: 1, breakerThreshold: undefined });
+    expect(policy).toMatchObject({
+      timeoutMs: 5000,
+      maxRetries: DEFAULT_REQUEST_POLICY.maxRetries,
+      maxConcurrency: 1,
+      breakerThreshold: DEFAULT_REQUEST_POLICY.breakerThreshold,
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ResponseCache, parseCacheTtls } from '../src/response-cache.js';
+import { BaseQLClient } from '../src/request-client.js';
+import { MockBaseQL, startMockBaseQL } from './helpers/mock-baseql.js';
+
+const options = { ttls: { queryTable: 60 }, maxEntries: 10, maxBytes: 1024 * 1024 };
+const QUERY = '{ contacts(_page_size: 2) { id } }';
+
+const store = (cache: ResponseCache, query: string, value: unknown, endpoint = 'crm') =>
+  cache.store(endpoint, query, undefined, value, cache.generation(endpoint));
+
+describe('parseCacheTtls', () => {
+  it('parses tool=seconds lists', () => {
+    expect(parseCacheTtls('queryTable=30, query=0')).toEqual({ queryTable: 30, query: 0 });
+    expect(parseCacheTtls(undefined)).toBeUndefined();
+  });
+
+  it('rejects malformed entries', () => {
+    expect(() => parseCacheTtls('queryTable')).toThrow(/Invalid cache TTL "queryTable"/);
+    expect(() => parseCacheTtls('queryTable=-1')).toThrow(/Invalid cache TTL/);
+  });
+});
+
+describe('CachedRequester', () => {
+  let mock: MockBaseQL;
+  let client: BaseQLClient;
+
+  beforeEach(async () => {
+    mock = await startMockBaseQL();
+    client = new BaseQLClient(mock.url, 'test');
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await mock.close();
+  });
+
+  it('answers the same query from the cache, whatever its layout', async () => {
+    const cache = new ResponseCache(options);
+    await cache.forCall('crm', client, 'queryTable').request(QUERY);
+
+    const second = cache.forCall('crm', client, 'queryTable');
+    const data = await second.request('query {\n  contacts(_page_size: 2) {\n    id\n  }\n}');
+
+    expect(data).toEqual({ contacts: [{ id: 'rec1' }, { id: 'rec2' }] });
+    expect(mock.requests).toHaveLength(1);
+    expect(second.info()).toMatchObject({ hit: true, hits: 1, misses: 0, ttlSeconds: 60 });
+  });
+
+  it('sends tools without a TTL straight to BaseQL', async () => {
+    const cache = new ResponseCache(options);
+    const requester = cache.forCall('crm', client, 'query');
+    await requester.request(QUERY);
+    await requester.request(QUERY);
+
+    expect(mock.requests).toHaveLength(2);
+    expect(requester.info()).toBeUndefined();
+    expect(cache.size).toBe(0);
+  });
+
+  it('caches only the result of a computation over many requests', async () => {
+    const cache = new ResponseCache(options);
+    const compute = async () => {
+      await client.request(QUERY);
+      await client.request(QUERY);
+      return { total: 2 };
+    };
+
+    expect(await cache.forCall('crm', client, 'queryTable').result('count', { table: 'contacts' }, compute)).toEqual({ total: 2 });
+    const second = cache.forCall('crm', client, 'queryTable');
+    expect(await second.result('count', { table: 'contacts' }, compute)).toEqual({ total: 2 });
+
+    expect(mock.requests).toHaveLength(2);
+    expect(cache.size).toBe(1);
+    expect(second.info()).toMatchObject({ hit: true });
+  });
+
+  it('refetches once the calling tool\'s TTL has passed', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const cache = new ResponseCache(options);
+    await cache.forCall('crm', client, 'queryTable').request(QUERY);
+
+    vi.setSystemTime(Date.now() + 61_000);
+    await cache.forCall('crm', client, 'queryTable').request(QUERY);
+    expect(mock.requests).toHaveLength(2);
+  });
+});
+
+describe('ResponseCache', () => {
+  it('evicts the least recently used entry past the entry limit', async () => {
+    const cache = new ResponseCache({ ...options, maxEntries: 2 });
+    await store(cache, '{ a }', 1);
+    await store(cache, '{ b }', 2);
+    await cache.lookup('crm', '{ a }', undefined, 60);
+    await store(cache, '{ c }', 3);
+
+    expect(cache.size).toBe(2);
+    expect(await cache.lookup('crm', '{ b }', undefined, 60)).toBeNull();
+    expect((await cache.lookup('crm', '{ a }', undefined, 60))?.value).toBe(1);
+  });
+
+  it('invalidates one endpoint and ignores responses to requests sent before a write', async () => {
+    const cache = new ResponseCache(options);
+    await store(cache, '{ a }', 1, 'crm');
+    await store(cache, '{ a }', 1, 'hr');
+    const before = cache.generation('crm');
+
+    expect(await cache.invalidate('crm')).toBe(1);
+    await cache.store('crm', '{ b }', undefined, 2, before);
+
+    expect(await cache.lookup('crm', '{ b }', undefined, 60)).toBeNull();
+    expect(await cache.lookup('hr', '{ a }', undefined, 60)).not.toBeNull();
+  });
+
+  it('only removes its own files from the cache directory', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'baseql-cache-'));
+    try {
+      await fs.writeFile(path.join(dir, 'notes.json'), '{}');
+      const cache = new ResponseCache({ ...options, dir });
+      await store(cache, '{ a }', 1);
+
+      const restarted = new ResponseCache({ ...options, dir });
+      expect((await restarted.lookup('crm', '{ a }', undefined, 60))?.value).toBe(1);
+
+      await restarted.invalidate();
+      expect(await fs.readdir(dir)).toEqual(['notes.json']);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { TEXT_PREVIEW_LENGTH, fitToBudget } from '../src/result-budget.js';
+
+const measure = (data: Record<string, unknown>) => JSON.stringify(data).length;
+const options = (maxTokens: number) => ({ maxTokens, measure, handle: 'res_test' });
+
+const contacts = (count: number, notes = 'short') =>
+  Array.from({ length: count }, (_, i) => ({ id: `rec${i}`, name: `Contact ${i}`, amount: i, notes }));
+
+describe('fitToBudget', () => {
+  it('returns null when the result already fits', () => {
+    expect(fitToBudget({ contacts: contacts(3) }, ['contacts'], options(1000))).toBeNull();
+  });
+
+  it('returns null when there are no lists to cut', () => {
+    expect(fitToBudget({ text: 'x'.repeat(10_000) }, [], options(10))).toBeNull();
+  });
+
+  it('keeps as many rows as fit and says where to continue', () => {
+    const data = { contacts: contacts(200) };
+    const result = fitToBudget(data, ['contacts'], options(1000))!;
+    const rows = result.contacts as unknown[];
+    const summary = result._truncated.lists.contacts;
+
+    expect(measure(result)).toBeLessThanOrEqual(1000 * 4);
+    expect(rows.length).toBeGreaterThan(0);
+    expect(rows.length).toBeLessThan(200);
+    expect(summary).toMatchObject({ totalRows: 200, returnedRows: rows.length, nextOffset: rows.length });
+    expect(summary.fieldStats.amount).toMatchObject({ type: 'number', min: 0, max: 199, nonEmpty: 200 });
+    expect(result._truncated.handle).toBe('res_test');
+  });
+
+  it('cuts long text values to a preview before dropping rows', () => {
+    const data = { contacts: contacts(5, 'n'.repeat(5000)) };
+    const result = fitToBudget(data, ['contacts'], options(1000))!;
+    const rows = result.contacts as Array<{ notes: string }>;
+
+    expect(rows).toHaveLength(5);
+    expect(rows[0].notes.startsWith('n'.repeat(TEXT_PREVIEW_LENGTH))).toBe(true);
+    expect(rows[0].notes).toContain(`(+${5000 - TEXT_PREVIEW_LENGTH} chars)`);
+    expect(result._truncated.lists.contacts.previewedFields).toEqual(['notes']);
+  });
+
+  it('leaves out the largest fields, but never the id, when not even one row fits', () => {
+    const wide = [{ id: 'rec1', ...Object.fromEntries(Array.from({ length: 40 }, (_, i) => [`field${i}`, 'v'.repeat(150)])) }];
+    const result = fitToBudget({ contacts: wide }, ['contacts'], options(1500))!;
+    const [row] = result.contacts as Array<Record<string, unknown>>;
+    const omitted = result._truncated.lists.contacts.omittedFields ?? [];
+
+    expect(row.id).toBe('rec1');
+    expect(omitted.length).toBeGreaterThan(0);
+    expect(omitted).not.toContain('id');
+    omitted.forEach(field => expect(row).not.toHaveProperty(field));
+  });
+
+  it('continues from the stored position when paging', () => {
+    const result = fitToBudget({ contacts: contacts(100) }, ['contacts'], {
+      ...options(500),
+      positions: { contacts: { offset: 300, total: 1000 } },
+    })!;
+    const summary = result._truncated.lists.contacts;
+    expect(summary.totalRows).toBe(1000);
+    expect(summary.nextOffset).toBe(300 + summary.returnedRows);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { searchRecords } from '../src/search.js';
+
+const people = [
+  { id: 'rec1', firstName: 'Ada', lastName: 'Lovelace', email: 'ada@example.com', tags: ['math'] },
+  { id: 'rec2', firstName: 'Adam', lastName: 'Smith', email: 'adam@umd.edu', tags: [] },
+  { id: 'rec3', firstName: 'Grace', lastName: 'Hopper', email: 'grace@navy.mil', tags: ['navy', 'compilers'] },
+  { id: 'rec4', firstName: 'John', lastName: 'Adamson', email: 'john@example.com', tags: [] },
+];
+const ids = (hits: Array<{ record: { id: string } }>) => hits.map(hit => hit.record.id);
+
+describe('searchRecords', () => {
+  it('ranks records by the first field they match, then by match quality', () => {
+    const hits = searchRecords(people, ['firstName', 'lastName'], 'ada', 'contains');
+    expect(ids(hits)).toEqual(['rec1', 'rec2', 'rec4']);
+    expect(hits[0].matches).toEqual([{ field: 'firstName', type: 'exact' }]);
+    expect(hits[1].matches[0].type).toBe('prefix');
+    expect(hits[2].matches).toEqual([{ field: 'lastName', type: 'prefix' }]);
+  });
+
+  it('matches case-insensitively and inside values in contains mode', () => {
+    expect(ids(searchRecords(people, ['email'], 'UMD', 'contains'))).toEqual(['rec2']);
+    expect(ids(searchRecords(people, ['email'], 'UMD', 'prefix'))).toEqual([]);
+  });
+
+  it('only accepts the whole value in exact mode', () => {
+    expect(ids(searchRecords(people, ['firstName'], 'adam', 'exact'))).toEqual(['rec2']);
+  });
+
+  it('matches words by prefix in token mode', () => {
+    const hits = searchRecords([{ id: 'r', name: 'John Smith' }], ['name'], 'jo smi', 'token');
+    expect(hits[0].matches).toEqual([{ field: 'name', type: 'token' }]);
+  });
+
+  it('lets a multi-word term span fields', () => {
+    const hits = searchRecords(people, ['firstName', 'lastName'], 'ada love', 'contains');
+    expect(ids(hits)).toEqual(['rec1']);
+    expect(hits[0].matches.map(match => match.field)).toEqual(['firstName', 'lastName']);
+  });
+
+  it('searches every element of multi-select fields', () => {
+    expect(ids(searchRecords(people, ['tags'], 'compil', 'prefix'))).toEqual(['rec3']);
+  });
+
+  it('returns each record once', () => {
+    expect(ids(searchRecords([...people, people[0]], ['firstName'], 'ada', 'exact'))).toEqual(['rec1']);
+  });
+});
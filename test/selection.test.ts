@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { FieldSpec, parseSelection, selectionColumns, shapeRecords } from '../src/selection.js';
+import { AccessPolicy } from '../src/query-guard.js';
+import { mockSchemaModel } from './helpers/mock-baseql.js';
+
+const schema = mockSchemaModel();
+const open: AccessPolicy = { allowWrites: false };
+
+const select = (specs: FieldSpec[], policy = open) => parseSelection(schema, schema.tables.get('contacts')!, specs, policy);
+
+describe('parseSelection', () => {
+  it('merges dotted paths through the same linked field', () => {
+    const tree = select(['id', 'company.name', 'company.id']);
+    expect(selectionColumns(tree)).toEqual(['id', 'company.name', 'company.id']);
+  });
+
+  it('keeps only the ids of a linked field selected on its own', () => {
+    expect(selectionColumns(select(['company']))).toEqual(['company.id']);
+    expect(selectionColumns(select(['company', 'company.name']))).toEqual(['company.id', 'company.name']);
+  });
+
+  it('suggests the closest field for an unknown name', () => {
+    expect(() => select(['fulName'])).toThrow(/fullName/);
+  });
+
+  it('rejects sub-fields on a field that is not a link', () => {
+    expect(() => select(['email.domain'])).toThrow(/"email" on table "contacts" is not a linked-record field/);
+  });
+
+  it('refuses to follow links into a denied table', () => {
+    const policy: AccessPolicy = { allowWrites: false, deniedTables: ['payroll'] };
+    expect(() => select(['id', 'salary.monthly'], policy)).toThrow(/ACCESS_DENIED.*payroll/);
+    expect(() => select(['salary'], policy)).toThrow(/ACCESS_DENIED/);
+  });
+
+  it('refuses to follow links outside the allowed tables', () => {
+    const policy: AccessPolicy = { allowWrites: false, allowedTables: ['contacts'] };
+    expect(() => select(['company.name'], policy)).toThrow(/ACCESS_DENIED/);
+    expect(() => select(['company.contacts.fullName'], { allowWrites: false, allowedTables: ['contacts', 'companies'] })).not.toThrow();
+  });
+
+  it('rejects invalid nested limits', () => {
+    expect(() => select([{ company: { fields: ['name'], limit: 0 } }])).toThrow(/limit on "company" must be a positive integer/);
+  });
+});
+
+describe('shapeRecords', () => {
+  it('applies nested filters and limits and drops filter-only fields', () => {
+    const tree = select(['id', { company: { fields: ['id'], filter: { name: 'Globex' }, limit: 1 } }]);
+    const records = [{
+      id: 'rec1',
+      company: [
+        { id: 'co1', name: 'Acme' },
+        { id: 'co2', name: 'Globex' },
+        { id: 'co3', name: 'Globex' },
+      ],
+    }];
+
+    expect(shapeRecords(records, tree)).toEqual([{ id: 'rec1', company: [{ id: 'co2' }] }]);
+  });
+});
@@ -0,0 +1,214 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { MockBaseQL, startMockBaseQL } from './helpers/mock-baseql.js';
+import { testServer } from './helpers/test-server.js';
+
+let mock: MockBaseQL;
+
+beforeEach(async () => {
+  mock = await startMockBaseQL();
+});
+
+afterEach(async () => {
+  await mock.close();
+});
+
+describe('searchTable', () => {
+  it('scans the table and returns ranked partial matches', async () => {
+    const { run } = testServer(mock);
+    const result = await run('searchTable', { tableName: 'contacts', searchTerm: 'umd.edu', fields: ['email'], limit: 3 });
+
+    expect(result.totalMatches).toBe(12);
+    expect(result.returned).toBe(3);
+    expect(result.scanComplete).toBe(true);
+    expect(result.results[0]).toMatchObject({ id: 'rec2', email: 'p2@umd.edu', _matchedFields: ['email (contains)'] });
+  });
+
+  it('ignores fields that are not text and reports them', async () => {
+    const { run } = testServer(mock);
+    const result = await run('searchTable', { tableName: 'contacts', searchTerm: 'person 7', fields: ['fullName', 'amount'], matchMode: 'exact' });
+
+    expect(result.ignoredFields).toEqual(['amount']);
+    expect(result.results.map((record: any) => record.id)).toEqual(['rec7']);
+  });
+
+  it('says when the scan stopped at the record limit', async () => {
+    const { run } = testServer(mock, { maxRecords: 10 });
+    const result = await run('searchTable', { tableName: 'contacts', searchTerm: 'person', fields: ['fullName'] });
+
+    expect(result.recordsScanned).toBe(10);
+    expect(result.scanComplete).toBe(false);
+    expect(result.note).toMatch(/first 10 records/);
+  });
+});
+
+describe('aggregateTable', () => {
+  it('groups every record of the table', async () => {
+    const { run } = testServer(mock);
+    const result = await run('aggregateTable', {
+      tableName: 'contacts',
+      groupBy: ['type'],
+      aggregates: [{ op: 'count' }, { op: 'sum', field: 'amount' }],
+    });
+
+    expect(result).toMatchObject({ recordsScanned: 25, recordsMatched: 25, complete: true });
+    expect(result.rows).toEqual([
+      { type: 'Student', count: 9, sum_amount: 1170 },
+      { type: 'Staff', count: 8, sum_amount: 1000 },
+      { type: 'Faculty', count: 8, sum_amount: 1080 },
+    ]);
+  });
+
+  it('applies the filter before aggregating', async () => {
+    const { run } = testServer(mock);
+    const result = await run('aggregateTable', { tableName: 'contacts', filter: { amount: { gt: 200 } } });
+
+    expect(result.recordsMatched).toBe(5);
+    expect(result.rows).toEqual([{ count: 5 }]);
+  });
+
+  it('caches the aggregated result but not the pages it scanned', async () => {
+    const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'baseql-cache-'));
+    try {
+      const { run } = testServer(mock, { cache: true, cacheDir });
+      const args = { tableName: 'contacts', groupBy: ['type'] };
+      await run('aggregateTable', args);
+      const sent = mock.requests.length;
+
+      const again = await run('aggregateTable', args);
+      expect(mock.requests).toHaveLength(sent);
+      expect(again._cache).toMatchObject({ hit: true });
+      // The one entry is the aggregate itself, not a page of records
+      const files = fs.readdirSync(cacheDir);
+      expect(files).toHaveLength(1);
+      expect(JSON.parse(fs.readFileSync(path.join(cacheDir, files[0]), 'utf-8')).value).toMatchObject({ recordsScanned: 25, groups: 3 });
+    } finally {
+      fs.rmSync(cacheDir, { recursive: true, force: true });
+    }
+  });
+
+  it('marks the result incomplete when the scan limit is reached', async () => {
+    const { run } = testServer(mock, { maxScanRecords: 10 });
+    const result = await run('aggregateTable', { tableName: 'contacts' });
+
+    expect(result).toMatchObject({ recordsScanned: 10, complete: false });
+    expect(result.note).toBeTruthy();
+  });
+});
+
+describe('write tools', () => {
+  it('refuses writes unless the server allows them', async () => {
+    const { run } = testServer(mock);
+    await expect(run('createRecord', { tableName: 'contacts', fields: { fullName: 'Ada' } })).rejects.toThrow(/WRITES_DISABLED/);
+    expect(mock.requests).toHaveLength(0);
+  });
+
+  it('creates, updates and deletes records', async () => {
+    const { run } = testServer(mock, { allowWrites: true });
+
+    const created = await run('createRecord', { tableName: 'contacts', fields: { fullName: 'Ada', amount: 5 } });
+    expect(created).toMatchObject({ operation: 'create', mutation: 'insert_contacts', record: { id: 'rec26', fullName: 'Ada', amount: 5 } });
+
+    await run('updateRecord', { tableName: 'contacts', id: 'rec26', fields: { type: 'Staff' } });
+    expect(mock.db.contacts.find(contact => contact.id === 'rec26')).toMatchObject({ fullName: 'Ada', type: 'Staff' });
+
+    const deleted = await run('deleteRecord', { tableName: 'contacts', id: 'rec26' });
+    expect(deleted.record.id).toBe('rec26');
+    expect(mock.db.contacts).toHaveLength(25);
+  });
+
+  it('checks the target table against the access lists', async () => {
+    const { run } = testServer(mock, { allowWrites: true, deniedTables: ['contacts'] });
+    await expect(run('deleteRecord', { tableName: 'contacts', id: 'rec1' })).rejects.toThrow(/ACCESS_DENIED/);
+    expect(mock.db.contacts).toHaveLength(25);
+  });
+
+  it('checks the tables that linked-record fields point into', async () => {
+    const { run } = testServer(mock, { allowWrites: true, deniedTables: ['payroll'] });
+    await expect(run('updateRecord', { tableName: 'contacts', id: 'rec2', fields: { salary: ['pay1'] } }))
+      .rejects.toThrow(/ACCESS_DENIED.*payroll/);
+    expect(mock.db.contacts[1].salary).toEqual([]);
+
+    const updated = await run('updateRecord', { tableName: 'contacts', id: 'rec2', fields: { company: ['co1'] } });
+    expect(updated.operation).toBe('update');
+  });
+
+  it('validates fields before sending anything', async () => {
+    const { run } = testServer(mock, { allowWrites: true });
+    await expect(run('createRecord', { tableName: 'contacts', fields: { fullname: 'Ada' } })).rejects.toThrow(/UNKNOWN_FIELD/);
+    expect(mock.requests.some(request => request.query.trimStart().startsWith('mutation'))).toBe(false);
+  });
+});
+
+describe('access control', () => {
+  it('keeps denied tables out of raw queries, table tools and listings', async () => {
+    const { run } = testServer(mock, { deniedTables: ['payroll'] });
+
+    await expect(run('query', { query: '{ contacts { id salary { monthly } } }' })).rejects.toThrow(/ACCESS_DENIED/);
+    await expect(run('query', { query: '{ __type(name: "payroll") { fields { name } } }' })).rejects.toThrow(/ACCESS_DENIED/);
+    await expect(run('queryTable', { tableName: 'payroll' })).rejects.toThrow(/ACCESS_DENIED/);
+    expect(mock.requests.some(request => request.query.includes('monthly'))).toBe(false);
+
+    const listed = await run('listTables');
+    expect(JSON.stringify(listed)).not.toContain('payroll');
+  });
+
+  it('refuses mutations through the raw query tool in read-only mode', async () => {
+    const { run } = testServer(mock);
+    await expect(run('query', { query: 'mutation { delete_contacts(id: "rec1") { id } }' })).rejects.toThrow(/WRITES_DISABLED/);
+    expect(mock.db.contacts).toHaveLength(25);
+  });
+});
+
+describe('getResultPage', () => {
+  it('pages through a truncated result', async () => {
+    const { run } = testServer(mock, { maxResponseTokens: 400 });
+    const first = await run('queryTable', { tableName: 'contacts', fields: ['id', 'fullName'], limit: 25 });
+    const { handle, lists } = first._truncated;
+
+    const page = await run('getResultPage', { handle, offset: lists.contacts.nextOffset, limit: 5 });
+    expect(page.contacts[0].id).toBe(`rec${lists.contacts.nextOffset + 1}`);
+    expect(page.pageInfo).toMatchObject({ returned: 5, total: 25 });
+  });
+
+  it('only reads a result under the endpoint that produced it', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'baseql-endpoints-'));
+    const configFile = path.join(dir, 'endpoints.json');
+    fs.writeFileSync(configFile, JSON.stringify({
+      defaultEndpoint: 'crm',
+      endpoints: {
+        crm: { url: mock.url, apiKey: 'test' },
+        directory: { url: mock.url, apiKey: 'test', deniedTables: ['contacts'] },
+      },
+    }));
+    try {
+      const { run } = testServer(mock, { configFile, maxResponseTokens: 400 });
+      const first = await run('queryTable', { tableName: 'contacts', fields: ['id', 'fullName'], limit: 25 });
+
+      await expect(run('getResultPage', { handle: first._truncated.handle, endpoint: 'directory' }))
+        .rejects.toThrow(/came from endpoint "crm", not "directory"/);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('getFieldOptions', () => {
+  it('keeps reading until the sample holds sampleSize matching records', async () => {
+    const { run } = testServer(mock);
+    const result = await run('getFieldOptions', { tableName: 'contacts', fieldName: 'type', sampleSize: 5, filter: { amount: { gt: 150 } } });
+
+    expect(result).toMatchObject({ sampleSize: 5, recordsScanned: 25, totalUnique: 3 });
+    expect(result.note).toMatch(/first 5 matching records out of 25 scanned/);
+  });
+
+  it('counts every matching record when exhaustive', async () => {
+    const { run } = testServer(mock);
+    const result = await run('getFieldOptions', { tableName: 'contacts', fieldName: 'type', exhaustive: true });
+
+    expect(result.values.map((option: any) => [option.value, option.count])).toEqual([['Student', 9], ['Staff', 8], ['Faculty', 8]]);
+    expect(result.complete).toBe(true);
+  });
+});